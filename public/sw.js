@@ -0,0 +1,159 @@
+// 离线支持：预缓存地图数据和页面外壳，网络不可用时从缓存返回
+// 天气数据的最近一次结果由页面自身的天气缓存保存（见 src/lib/api/weather.ts），这里不缓存 /api 请求
+
+// 缓存结构变化时递增版本号，旧缓存在 activate 时清除；地图数据每次使用后在后台更新，无需递增
+const CACHE_VERSION = 'v2';
+const STATIC_CACHE = `weather-map-static-${CACHE_VERSION}`;
+const PAGE_CACHE = `weather-map-pages-${CACHE_VERSION}`;
+
+// 页面缓存最多保留的路径数，超出时删除最早写入的页面
+const MAX_PAGE_ENTRIES = 30;
+
+// public/data 下的 GeoJSON 文件，由注册时的 data 参数传入（见 src/components/pwa/ServiceWorkerRegistration.tsx）
+const GEO_DATA_FILES = (new URL(self.location.href).searchParams.get('data') ?? '')
+  .split(',')
+  .filter(file => file && !file.includes('/') && !file.includes('..'));
+
+const PRECACHE_URLS = [
+  '/',
+  '/manifest.webmanifest',
+  '/icons/icon.svg',
+  ...GEO_DATA_FILES.map(file => `/data/${file}`)
+];
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    caches.open(STATIC_CACHE)
+      .then(cache => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  const current = [STATIC_CACHE, PAGE_CACHE];
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(
+        keys
+          .filter(key => key.startsWith('weather-map-') && !current.includes(key))
+          .map(key => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+/**
+ * 优先读缓存，未命中时请求网络并写入缓存（带哈希的静态资源，内容不会变化）
+ */
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.ok) {
+    const cache = await caches.open(STATIC_CACHE);
+    cache.put(request, response.clone());
+  }
+  return response;
+}
+
+/**
+ * 有缓存时立即返回，同时在后台请求网络更新缓存，下次使用新数据（地图数据）
+ */
+async function staleWhileRevalidate(event) {
+  const { request } = event;
+  const cache = await caches.open(STATIC_CACHE);
+  const update = fetch(request).then(response => {
+    if (response.ok) return cache.put(request, response.clone()).then(() => response);
+    return response;
+  });
+
+  const cached = await cache.match(request);
+  if (!cached) return update;
+
+  event.waitUntil(update.catch(() => undefined));
+  return cached;
+}
+
+/**
+ * 删除最早写入的条目，使缓存不超过指定数量
+ */
+async function trimCache(cache, maxEntries) {
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - maxEntries)).map(key => cache.delete(key)));
+}
+
+// 离线且页面未缓存时返回的提示页
+const OFFLINE_HTML = `<!doctype html>
+<html lang="zh-CN">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>离线</title></head>
+<body style="font-family: system-ui, sans-serif; padding: 2rem; text-align: center">
+<p>当前处于离线状态，该页面尚未缓存。</p>
+<p lang="en">You are offline and this page has not been cached.</p>
+<p><a href="/">返回地图 / Back to map</a></p>
+</body>
+</html>`;
+
+function offlineResponse() {
+  return new Response(OFFLINE_HTML, {
+    status: 503,
+    statusText: 'Service Unavailable',
+    headers: { 'Content-Type': 'text/html; charset=utf-8' }
+  });
+}
+
+/**
+ * 优先请求网络并更新缓存，失败时返回缓存的页面，没有时返回离线提示页
+ *
+ * 页面按路径缓存：地图视图写在查询参数中，平移缩放会不断产生新地址，
+ * 页面内容与查询参数无关，状态由页面从地址栏恢复。
+ */
+async function networkFirst(request) {
+  const url = new URL(request.url);
+  const cacheKey = url.origin + url.pathname;
+
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const copy = response.clone();
+      caches.open(PAGE_CACHE)
+        .then(cache => cache.put(cacheKey, copy).then(() => trimCache(cache, MAX_PAGE_ENTRIES)))
+        .catch(() => undefined);
+    }
+    return response;
+  } catch {
+    // 首页在安装时预缓存，其余页面只有访问过才有缓存
+    return await caches.match(cacheKey) ?? offlineResponse();
+  }
+}
+
+// 页面在 Service Worker 接管前已加载的静态资源由页面通知后补充缓存
+self.addEventListener('message', event => {
+  if (event.data?.type !== 'CACHE_URLS' || !Array.isArray(event.data.urls)) return;
+
+  const urls = event.data.urls.filter(item => {
+    const url = new URL(item, self.location.origin);
+    return url.origin === self.location.origin && url.pathname.startsWith('/_next/static/');
+  });
+  event.waitUntil(
+    caches.open(STATIC_CACHE).then(cache => Promise.all(
+      urls.map(url => cache.add(url).catch(() => undefined))
+    ))
+  );
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (url.pathname.startsWith('/data/')) {
+    event.respondWith(staleWhileRevalidate(event));
+  } else if (url.pathname.startsWith('/_next/static/')) {
+    event.respondWith(cacheFirst(request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request));
+  }
+});
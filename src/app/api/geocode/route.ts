@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchPlaces } from '@/lib/server/weather-service';
+import { badRequest, upstreamErrorResponse } from '@/lib/server/http';
+
+// 查询词最大长度
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * GET /api/geocode?q=萧山
+ *
+ * 返回 { results: SearchResult[] }，只包含中国境内的地点。
+ */
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get('q')?.trim() ?? '';
+  if (!query) return badRequest('Missing q parameter');
+  if (query.length > MAX_QUERY_LENGTH) return badRequest('q parameter is too long');
+
+  try {
+    const results = await searchPlaces(query);
+    return NextResponse.json({ results }, {
+      headers: { 'Cache-Control': 'public, max-age=3600' }
+    });
+  } catch (error) {
+    return upstreamErrorResponse(error);
+  }
+}
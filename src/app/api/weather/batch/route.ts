@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Coordinates } from '@/types';
+import { getForecasts } from '@/lib/server/weather-service';
+import { badRequest, toCoordinates, upstreamErrorResponse } from '@/lib/server/http';
+
+// 单次请求的最大位置数
+const MAX_LOCATIONS = 200;
+
+/**
+ * POST /api/weather/batch，请求体 { locations: [{ lat, lng }, ...] }
+ *
+ * 按输入顺序返回每个位置的成功或失败结果。
+ */
+export async function POST(request: NextRequest) {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return badRequest('Request body is not valid JSON');
+  }
+
+  const rawLocations = (body as { locations?: unknown } | null)?.locations;
+  if (!Array.isArray(rawLocations) || rawLocations.length === 0) {
+    return badRequest('locations must be a non-empty array');
+  }
+  if (rawLocations.length > MAX_LOCATIONS) {
+    return badRequest(`locations must not exceed ${MAX_LOCATIONS} items`);
+  }
+
+  const locations: Coordinates[] = [];
+  for (const item of rawLocations) {
+    const coordinates = toCoordinates(item?.lat, item?.lng);
+    if (!coordinates) return badRequest('locations contains invalid coordinates');
+    locations.push(coordinates);
+  }
+
+  try {
+    return NextResponse.json(await getForecasts(locations));
+  } catch (error) {
+    return upstreamErrorResponse(error);
+  }
+}
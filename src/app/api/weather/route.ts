@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getForecast } from '@/lib/server/weather-service';
+import { badRequest, toCoordinates, upstreamErrorResponse } from '@/lib/server/http';
+
+/**
+ * GET /api/weather?lat=30.27&lng=120.15
+ *
+ * 返回单个位置的预报（领域模型），缺测值序列化为 null。
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = request.nextUrl;
+  const coordinates = toCoordinates(searchParams.get('lat'), searchParams.get('lng'));
+  if (!coordinates) return badRequest('Invalid lat or lng parameter');
+
+  try {
+    const data = await getForecast(coordinates);
+    return NextResponse.json(data, {
+      headers: { 'Cache-Control': 'public, max-age=300, stale-while-revalidate=600' }
+    });
+  } catch (error) {
+    return upstreamErrorResponse(error);
+  }
+}
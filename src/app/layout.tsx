@@ -1,5 +1,7 @@
-import type { Metadata } from "next";
+import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import ServiceWorkerRegistration from "@/components/pwa/ServiceWorkerRegistration";
+import SettingsProvider from "@/components/settings/SettingsProvider";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -17,17 +19,22 @@ export const metadata: Metadata = {
   description: "Generated by create next app",
 };
 
+export const viewport: Viewport = {
+  themeColor: "#2563eb",
+};
+
 export default function RootLayout({
   children,
 }: Readonly<{
   children: React.ReactNode;
 }>) {
   return (
-    <html lang="en">
+    <html lang="zh-CN">
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
+        <SettingsProvider>{children}</SettingsProvider>
+        <ServiceWorkerRegistration />
       </body>
     </html>
   );
@@ -0,0 +1,25 @@
+import type { MetadataRoute } from 'next';
+
+/**
+ * Web 应用清单，支持安装到桌面和主屏幕
+ */
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: '长三角天气预报',
+    short_name: '长三角天气',
+    description: '上海、浙江各区县实时天气与预报，离线时显示最近一次获取的数据',
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#2563eb',
+    lang: 'zh-CN',
+    icons: [
+      {
+        src: '/icons/icon.svg',
+        sizes: 'any',
+        type: 'image/svg+xml',
+        purpose: 'any'
+      }
+    ]
+  };
+}
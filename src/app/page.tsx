@@ -1,93 +1,376 @@
 'use client';
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef, Suspense } from 'react';
+import Link from 'next/link';
+import { usePathname, useRouter, useSearchParams } from 'next/navigation';
 import SVGMap from '@/components/map/SVGMap';
 import WeatherCard from '@/components/weather/WeatherCard';
+import AlertPanel from '@/components/weather/AlertPanel';
+import ComparePanel from '@/components/weather/ComparePanel';
+import FavoritesPanel from '@/components/favorites/FavoritesPanel';
 import SearchBox from '@/components/search/SearchBox';
+import SettingsPanel from '@/components/settings/SettingsPanel';
 import { Button } from '@/components/ui/button';
+import { Settings as SettingsIcon } from 'lucide-react';
 import { WeatherAPI } from '@/lib/api/weather';
-import { WeatherData, Coordinates } from '@/types';
+import { getRegionCenter } from '@/lib/map-utils';
+import { loadRegionIndex } from '@/lib/region-index';
+import { isAbortError } from '@/lib/api/errors';
+import { Message, describeError } from '@/lib/i18n';
+import { MapUrlState, DEFAULT_MAP_VIEW, parseMapUrlState, serializeMapUrlState } from '@/lib/url-state';
+import { RegionAlerts } from '@/lib/alerts';
+import { MAX_COMPARE_LOCATIONS, createCompareLocation, toggleCompareLocation } from '@/lib/compare';
+import { useLocationsWeather } from '@/hooks/useLocationsWeather';
+import { useFavorites } from '@/hooks/useFavorites';
+import { useRegionIndex } from '@/hooks/useRegionIndex';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useLatestRequest } from '@/hooks/useLatestRequest';
+import { useSettings } from '@/hooks/useSettings';
+import {
+  WeatherData,
+  CompareLocation,
+  Coordinates,
+  FavoriteLocation,
+  MapView,
+  SearchResult
+} from '@/types';
 
-export default function HomePage() {
-  const [selectedRegion, setSelectedRegion] = useState<string | null>(null);
+type SearchLocation = MapUrlState['location'];
+
+// 平移缩放停止后再写入 URL，避免拖拽时频繁更新地址栏
+const VIEWPORT_URL_DELAY = 300;
+
+/**
+ * 搜索结果对应的地点（以坐标区分）
+ */
+function toSearchLocation(location: SearchResult): CompareLocation {
+  return createCompareLocation(location.name, { lat: location.latitude, lng: location.longitude });
+}
+
+function HomePageContent() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  // 选中的区县以 adcode 标识，名称由区域索引得出
+  const [selectedAdcode, setSelectedAdcode] = useState<number | null>(null);
+  const [selectedPoint, setSelectedPoint] = useState<Coordinates | null>(null);
   const [weatherData, setWeatherData] = useState<WeatherData | null>(null);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [searchLocation, setSearchLocation] = useState<{name: string, latitude: number, longitude: number} | null>(null);
+  const [error, setError] = useState<Message | null>(null);
+  const [searchLocation, setSearchLocation] = useState<SearchLocation>(null);
+  // 传给地图的视图，只在打开链接或前进后退时更新
+  const [mapView, setMapView] = useState<MapView | undefined>(undefined);
+  // 地图上报的各区县预警，天气数据加载前为空
+  const [regionAlerts, setRegionAlerts] = useState<RegionAlerts[] | null>(null);
+  // 对比中的地点及提示信息
+  const [compareLocations, setCompareLocations] = useState<CompareLocation[]>([]);
+  const [compareMessage, setCompareMessage] = useState<Message | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const { t, format } = useSettings();
+  const compareWeather = useLocationsWeather(compareLocations);
+  const favoritesState = useFavorites();
+  const { index: regionIndex } = useRegionIndex();
+  const online = useOnlineStatus();
+  // 当前选择的天气请求，新的选择会取消未完成的旧请求
+  const { run: runSelection, cancel: cancelSelection } = useLatestRequest();
+  const selectedRegionName = selectedAdcode !== null ? regionIndex?.getLabel(selectedAdcode) ?? null : null;
 
-  // 处理地图区域点击
-  const handleRegionClick = useCallback(async (regionName: string, coordinates: [number, number]) => {
-    setSelectedRegion(regionName);
+  // 写入 URL 的最新状态，以及当前地址栏的查询字符串
+  const urlStateRef = useRef<MapUrlState>({ region: null, point: null, location: null, view: DEFAULT_MAP_VIEW });
+  const currentQueryRef = useRef<string | null>(null);
+  const replaceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // 更新 URL：选择和模式变化新增历史记录，平移缩放延迟后替换当前记录
+  const writeUrl = useCallback((patch: Partial<MapUrlState>, history: 'push' | 'replace') => {
+    urlStateRef.current = { ...urlStateRef.current, ...patch };
+    if (replaceTimerRef.current) {
+      clearTimeout(replaceTimerRef.current);
+      replaceTimerRef.current = null;
+    }
+
+    const commit = () => {
+      replaceTimerRef.current = null;
+      const query = serializeMapUrlState(urlStateRef.current);
+      if (query === currentQueryRef.current) return;
+
+      currentQueryRef.current = query;
+      const href = query ? `${pathname}?${query}` : pathname;
+      if (history === 'push') {
+        router.push(href, { scroll: false });
+      } else {
+        router.replace(href, { scroll: false });
+      }
+    };
+
+    if (history === 'push') {
+      commit();
+    } else {
+      replaceTimerRef.current = setTimeout(commit, VIEWPORT_URL_DELAY);
+    }
+  }, [router, pathname]);
+
+  useEffect(() => () => {
+    if (replaceTimerRef.current) clearTimeout(replaceTimerRef.current);
+  }, []);
+
+  // 选中区县并获取该位置的天气；连续选择时只显示最后一次选择的结果
+  const selectRegion = useCallback(async (adcode: number, coords: Coordinates) => {
+    setSelectedAdcode(adcode);
+    setSelectedPoint(coords);
+    setSearchLocation(null);
     setLoading(true);
     setError(null);
     
     try {
-      // coordinates格式为[longitude, latitude]
-      const coords: Coordinates = {
-        lat: coordinates[1],
-        lng: coordinates[0]
-      };
-      const weather = await WeatherAPI.getWeatherData(coords);
+      const [index, weather] = await runSelection(signal =>
+        Promise.all([loadRegionIndex(), WeatherAPI.getWeatherData(coords, { signal })])
+      );
       setWeatherData({
         ...weather,
         location: {
-          name: regionName,
-          lat: coordinates[1],
-          lng: coordinates[0],
-          latitude: coordinates[1],
-          longitude: coordinates[0]
+          name: index.getLabel(adcode) ?? '',
+          latitude: coords.lat,
+          longitude: coords.lng
         }
       });
+      setLoading(false);
     } catch (err) {
+      // 已被新的选择取代，状态由新的请求负责
+      if (isAbortError(err)) return;
       console.error('Failed to fetch weather data:', err);
-      setError(err instanceof Error ? err.message : '获取天气数据失败');
+      setError(describeError(err, 'error.weatherFailed'));
       setWeatherData(null);
-    } finally {
       setLoading(false);
     }
+  }, [runSelection]);
+
+  // 显示搜索地点的天气
+  const showSearchLocation = useCallback((location: NonNullable<SearchLocation>, weather: WeatherData) => {
+    cancelSelection();
+    setSearchLocation(location);
+    setSelectedAdcode(null); // 清除地图选择
+    setSelectedPoint(null);
+    setWeatherData({ ...weather, location });
+    setLoading(false);
+    setError(null);
+  }, [cancelSelection]);
+
+  // 恢复 URL 中的搜索地点，需要重新获取天气
+  const restoreSearchLocation = useCallback(async (location: NonNullable<SearchLocation>) => {
+    setSearchLocation(location);
+    setSelectedAdcode(null);
+    setSelectedPoint(null);
+    setLoading(true);
+    setError(null);
+    try {
+      const weather = await runSelection(signal =>
+        WeatherAPI.getWeatherData({ lat: location.latitude, lng: location.longitude }, { signal })
+      );
+      showSearchLocation(location, weather);
+    } catch (err) {
+      if (isAbortError(err)) return;
+      console.error('Failed to fetch weather data:', err);
+      setError(describeError(err, 'error.weatherFailed'));
+      setWeatherData(null);
+      setLoading(false);
+    }
+  }, [runSelection, showSearchLocation]);
+
+  const clearSelection = useCallback(() => {
+    cancelSelection();
+    setLoading(false);
+    setSelectedAdcode(null);
+    setSelectedPoint(null);
+    setSearchLocation(null);
+    setWeatherData(null);
+    setError(null);
+  }, [cancelSelection]);
+
+  // 重新请求当前选择的天气，没有可重试的选择时为 null
+  const retry = useMemo(() => {
+    if (selectedAdcode !== null && selectedPoint) return () => selectRegion(selectedAdcode, selectedPoint);
+    if (searchLocation) return () => restoreSearchLocation(searchLocation);
+    return null;
+  }, [selectedAdcode, selectedPoint, searchLocation, selectRegion, restoreSearchLocation]);
+
+  // 当前选择，供地址栏恢复时判断是否需要重新加载
+  const selectionRef = useRef({ selectedAdcode, selectedPoint, searchLocation });
+  useEffect(() => {
+    selectionRef.current = { selectedAdcode, selectedPoint, searchLocation };
+  }, [selectedAdcode, selectedPoint, searchLocation]);
+
+  // 地址栏变化（打开链接、前进后退）时恢复状态，本页写入的变化直接跳过
+  useEffect(() => {
+    const query = searchParams.toString();
+    if (query === currentQueryRef.current) return;
+    currentQueryRef.current = query;
+
+    const state = parseMapUrlState(new URLSearchParams(query));
+    urlStateRef.current = state;
+    setMapView(state.view);
+
+    const { selectedAdcode, selectedPoint, searchLocation } = selectionRef.current;
+    if (state.region !== null) {
+      const adcode = state.region;
+      if (adcode === selectedAdcode && state.point?.lat === selectedPoint?.lat && state.point?.lng === selectedPoint?.lng) return;
+
+      // 加载索引期间若有新的选择，放弃恢复
+      runSelection(() => loadRegionIndex())
+        .then(index => {
+          const entry = index.get(adcode);
+          if (!entry?.isLeaf) {
+            setError({ key: 'error.regionNotFound' });
+            return;
+          }
+          selectRegion(adcode, state.point ?? getRegionCenter(entry.feature));
+        })
+        .catch(err => {
+          if (!isAbortError(err)) console.error('Failed to restore region:', err);
+        });
+    } else if (state.location) {
+      const { location } = state;
+      if (searchLocation?.name === location.name
+        && searchLocation.latitude === location.latitude
+        && searchLocation.longitude === location.longitude) return;
+      restoreSearchLocation(location);
+    } else {
+      clearSelection();
+    }
+  }, [searchParams, runSelection, selectRegion, restoreSearchLocation, clearSelection]);
+
+  // 处理地图区域点击
+  const handleRegionClick = useCallback((adcode: number, coords: Coordinates) => {
+    selectRegion(adcode, coords);
+    writeUrl({ region: adcode, point: coords, location: null }, 'push');
+  }, [selectRegion, writeUrl]);
+
+  // 从预警列表选择区县
+  const handleAlertRegionSelect = useCallback((region: RegionAlerts) => {
+    handleRegionClick(region.adcode, region.coordinates);
+  }, [handleRegionClick]);
+
+  // 切换地点的对比状态，已满时提示
+  const toggleCompare = useCallback((location: CompareLocation) => {
+    const { locations, result } = toggleCompareLocation(compareLocations, location);
+    setCompareLocations(locations);
+    setCompareMessage(
+      result === 'full'
+        ? { key: 'compare.full', params: { max: MAX_COMPARE_LOCATIONS } }
+        : { key: result === 'added' ? 'compare.added' : 'compare.removed', params: { name: location.name } }
+    );
+  }, [compareLocations]);
+
+  // Shift+点击地图区域加入对比
+  const handleRegionCompare = useCallback((adcode: number, coords: Coordinates) => {
+    const name = regionIndex?.getLabel(adcode);
+    if (name) toggleCompare(createCompareLocation(name, coords, adcode));
+  }, [regionIndex, toggleCompare]);
+
+  // 搜索结果加入对比
+  const handleLocationCompare = useCallback((location: SearchResult) => {
+    toggleCompare(toSearchLocation(location));
+  }, [toggleCompare]);
+
+  const handleCompareRemove = useCallback((id: string) => {
+    setCompareLocations(prev => prev.filter(location => location.id !== id));
+    setCompareMessage(null);
+  }, []);
+
+  const handleCompareClear = useCallback(() => {
+    setCompareLocations([]);
+    setCompareMessage(null);
   }, []);
 
+  // 当前选中的地点，用于收藏
+  const currentLocation = useMemo<CompareLocation | null>(() => {
+    if (selectedRegionName && selectedAdcode !== null && selectedPoint) {
+      return createCompareLocation(selectedRegionName, selectedPoint, selectedAdcode);
+    }
+    if (searchLocation) {
+      return createCompareLocation(searchLocation.name, { lat: searchLocation.latitude, lng: searchLocation.longitude });
+    }
+    return null;
+  }, [selectedRegionName, selectedAdcode, selectedPoint, searchLocation]);
+
+  const handleToggleFavorite = useCallback(() => {
+    if (currentLocation) favoritesState.toggle(currentLocation);
+  }, [currentLocation, favoritesState]);
+
+  // 搜索结果的收藏状态
+  const handleLocationFavorite = useCallback((location: SearchResult) => {
+    favoritesState.toggle(toSearchLocation(location));
+  }, [favoritesState]);
+
+  const isLocationFavorite = useCallback(
+    (location: SearchResult) => favoritesState.isFavorite(toSearchLocation(location).id),
+    [favoritesState]
+  );
+
+  // 打开收藏的地点：区县按区县选择，其他地点按搜索地点恢复
+  const handleFavoriteSelect = useCallback((favorite: FavoriteLocation) => {
+    if (favorite.adcode !== undefined) {
+      handleRegionClick(favorite.adcode, favorite.coordinates);
+      return;
+    }
+
+    const { lat, lng } = favorite.coordinates;
+    const place = { name: favorite.name, latitude: lat, longitude: lng };
+    restoreSearchLocation(place);
+    writeUrl({ region: null, point: null, location: place }, 'push');
+  }, [handleRegionClick, restoreSearchLocation, writeUrl]);
+
   // 处理搜索位置选择
-  const handleLocationSelect = useCallback((location: any, weatherData: WeatherData) => {
-    setSearchLocation({
+  const handleLocationSelect = useCallback((location: SearchResult, weatherData: WeatherData) => {
+    const place = {
       name: location.name,
       latitude: location.latitude,
       longitude: location.longitude
-    });
-    setSelectedRegion(null); // 清除地图选择
-    setWeatherData({
-      ...weatherData,
-      location: {
-        name: location.name,
-        lat: location.latitude,
-        lng: location.longitude,
-        latitude: location.latitude,
-        longitude: location.longitude
-      }
-    });
-    setError(null);
-  }, []);
+    };
+    showSearchLocation(place, weatherData);
+    writeUrl({ region: null, point: null, location: place }, 'push');
+  }, [showSearchLocation, writeUrl]);
+
+  // 地图视图变化同步到 URL
+  const handleViewChange = useCallback((view: MapView, history: 'push' | 'replace') => {
+    writeUrl({ view }, history);
+  }, [writeUrl]);
+
+  // 屏幕阅读器播报的选中区域天气
+  const announcement = useMemo(() => {
+    const name = selectedRegionName || searchLocation?.name;
+    if (!name) return '';
+    if (loading) return t('app.statusLoading', { name });
+    if (error) return t('app.statusFailed', { name, error: t(error.key, error.params) });
+    if (!weatherData) return '';
+
+    const { current } = weatherData;
+    return [
+      t('app.statusCurrent', { name, description: format.weatherDescription(current.weatherCode) }),
+      t('common.labeledValue', { label: t('metric.temperature'), value: format.temperature(current.temperature) }),
+      t('common.labeledValue', { label: t('weather.apparent'), value: format.temperature(current.apparentTemperature) }),
+      t('common.labeledValue', { label: t('weather.humidity'), value: format.humidity(current.humidity) }),
+      t('common.labeledValue', { label: t('weather.windSpeed'), value: format.windSpeed(current.windSpeed) })
+    ].join(t('common.listSeparator'));
+  }, [selectedRegionName, searchLocation, loading, error, weatherData, t, format]);
 
   // 清除选择
   const handleClearSelection = useCallback(() => {
-    setSelectedRegion(null);
-    setSearchLocation(null);
-    setWeatherData(null);
-    setError(null);
-  }, []);
+    clearSelection();
+    writeUrl({ region: null, point: null, location: null }, 'push');
+  }, [clearSelection, writeUrl]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50">
       {/* 头部 */}
       <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200 sticky top-0 z-10">
-        <div className="container mx-auto px-4 py-3 sm:py-4">
+        <div className="container relative mx-auto px-4 py-3 sm:py-4">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
             <div className="flex-1">
               <h1 className="text-xl sm:text-2xl font-bold text-gray-800">
-                🌤️ 长三角天气预报
+                🌤️ {t('app.title')}
               </h1>
               <p className="text-xs sm:text-sm text-gray-600 mt-1">
-                点击地图区域或搜索地名查看天气信息
+                {t('app.subtitle')}
               </p>
             </div>
             
@@ -95,24 +378,54 @@ export default function HomePage() {
             <div className="w-full sm:w-80">
               <SearchBox 
                 onLocationSelect={handleLocationSelect}
+                onLocationCompare={handleLocationCompare}
+                onLocationFavorite={handleLocationFavorite}
+                isLocationFavorite={isLocationFavorite}
                 className="w-full"
               />
             </div>
             
-            {(selectedRegion || searchLocation) && (
+            {(selectedAdcode !== null || searchLocation) && (
               <Button 
                 variant="outline" 
                 onClick={handleClearSelection}
                 className="text-sm w-full sm:w-auto"
                 size="sm"
               >
-                清除选择
+                {t('app.clearSelection')}
               </Button>
             )}
+
+            <Button
+              variant={showSettings ? 'secondary' : 'outline'}
+              size="sm"
+              onClick={() => setShowSettings(prev => !prev)}
+              aria-expanded={showSettings}
+              title={t('settings.title')}
+              aria-label={t('settings.title')}
+              className="self-end sm:self-auto"
+            >
+              <SettingsIcon className="h-4 w-4" />
+            </Button>
           </div>
+
+          {showSettings && (
+            <SettingsPanel
+              onClose={() => setShowSettings(false)}
+              className="sm:absolute sm:right-4 sm:top-full sm:mt-2 sm:w-96 sm:max-h-[80vh] sm:overflow-y-auto mt-3 shadow-lg"
+            />
+          )}
         </div>
       </header>
 
+      {!online && (
+        <div role="status" className="bg-amber-50 border-b border-amber-200 text-amber-800 text-xs sm:text-sm">
+          <div className="container mx-auto px-4 py-2">
+            {t('app.offline')}
+          </div>
+        </div>
+      )}
+
       {/* 主要内容 */}
       <main className="container mx-auto px-4 py-4 sm:py-6">
         <div className="grid grid-cols-1 xl:grid-cols-3 gap-4 sm:gap-6">
@@ -121,38 +434,82 @@ export default function HomePage() {
             <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-3 sm:p-4">
               <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 mb-4">
                 <h2 className="text-base sm:text-lg font-semibold text-gray-800">
-                  上海 & 浙江地区
+                  {t('app.mapTitle')}
                 </h2>
-                {(selectedRegion || searchLocation) && (
+                {(selectedAdcode !== null || searchLocation) && (
                   <div className="text-xs sm:text-sm text-blue-600 font-medium bg-blue-50 px-2 py-1 rounded-md">
-                    已选择: {selectedRegion || searchLocation?.name}
+                    {t('app.selected', { name: selectedRegionName || searchLocation?.name || '' })}
                     {searchLocation && (
                       <span className="ml-1 text-gray-500">
-                        (搜索结果)
+                        {t('app.searchResult')}
                       </span>
                     )}
+                    {selectedAdcode !== null && (
+                      <Link href={`/region/${selectedAdcode}`} className="ml-2 underline hover:text-blue-800">
+                        {t('app.details')}
+                      </Link>
+                    )}
                   </div>
                 )}
               </div>
               
               <SVGMap
                 onRegionClick={handleRegionClick}
-                selectedRegion={selectedRegion || undefined}
+                onRegionCompare={handleRegionCompare}
+                selectedAdcode={selectedAdcode}
+                selectedPoint={selectedPoint ?? undefined}
+                compareLocations={compareLocations}
+                view={mapView}
+                onViewChange={handleViewChange}
+                onAlertsChange={setRegionAlerts}
                 className="w-full"
               />
             </div>
+
+            {compareLocations.length > 0 && (
+              <ComparePanel
+                locations={compareLocations}
+                weather={compareWeather.data}
+                errors={compareWeather.errors}
+                loading={compareWeather.loading}
+                message={compareMessage && t(compareMessage.key, compareMessage.params)}
+                onRemove={handleCompareRemove}
+                onClear={handleCompareClear}
+                className="mt-4 shadow-sm"
+              />
+            )}
           </div>
 
           {/* 天气信息区域 */}
           <div className="space-y-3 sm:space-y-4 order-2 xl:order-2">
-            {!selectedRegion && !searchLocation && !loading && (
+            <div role="status" aria-live="polite" className="sr-only">
+              {announcement}
+            </div>
+
+            <FavoritesPanel
+              favoritesState={favoritesState}
+              selectedId={currentLocation?.id}
+              onSelect={handleFavoriteSelect}
+              className="shadow-sm"
+            />
+
+            {regionAlerts && (
+              <AlertPanel
+                regions={regionAlerts}
+                selectedAdcode={selectedAdcode}
+                onRegionSelect={handleAlertRegionSelect}
+                className="shadow-sm"
+              />
+            )}
+
+            {selectedAdcode === null && !searchLocation && !loading && (
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 sm:p-6 text-center">
                 <div className="text-3xl sm:text-4xl mb-3 sm:mb-4">🗺️</div>
                 <h3 className="text-base sm:text-lg font-semibold text-gray-800 mb-2">
-                  选择地区查看天气
+                  {t('app.emptyTitle')}
                 </h3>
                 <p className="text-gray-600 text-xs sm:text-sm leading-relaxed">
-                  点击地图上的任意区域，或使用搜索框查找地名，即可查看该地区的实时天气信息
+                  {t('app.emptyHint')}
                 </p>
               </div>
             )}
@@ -161,7 +518,7 @@ export default function HomePage() {
               <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-4 sm:p-6">
                 <div className="flex items-center justify-center space-x-2 sm:space-x-3">
                   <div className="animate-spin rounded-full h-5 w-5 sm:h-6 sm:w-6 border-b-2 border-blue-600"></div>
-                  <span className="text-gray-600 text-sm sm:text-base">正在获取天气数据...</span>
+                  <span className="text-gray-600 text-sm sm:text-base">{t('app.loading')}</span>
                 </div>
               </div>
             )}
@@ -171,31 +528,31 @@ export default function HomePage() {
                 <div className="text-center">
                   <div className="text-red-500 text-xl sm:text-2xl mb-2">⚠️</div>
                   <h3 className="text-base sm:text-lg font-semibold text-red-800 mb-2">
-                    获取天气数据失败
+                    {t('app.errorTitle')}
                   </h3>
-                  <p className="text-red-600 text-xs sm:text-sm mb-3 sm:mb-4 leading-relaxed">{error}</p>
-                  <Button 
-                    variant="outline" 
-                    size="sm"
-                    className="w-full sm:w-auto"
-                    onClick={() => {
-                      if (selectedRegion || searchLocation) {
-                        // 重新触发当前选中区域的天气获取
-                        setError(null);
-                        setLoading(true);
-                      }
-                    }}
-                  >
-                    重试
-                  </Button>
+                  <p className="text-red-600 text-xs sm:text-sm mb-3 sm:mb-4 leading-relaxed">
+                    {t(error.key, error.params)}
+                  </p>
+                  {retry && (
+                    <Button 
+                      variant="outline" 
+                      size="sm"
+                      className="w-full sm:w-auto"
+                      onClick={retry}
+                    >
+                      {t('app.retry')}
+                    </Button>
+                  )}
                 </div>
               </div>
             )}
             
-            {weatherData && (selectedRegion || searchLocation) && !loading && (
+            {weatherData && (selectedAdcode !== null || searchLocation) && !loading && (
               <WeatherCard
                 weatherData={weatherData}
-                locationName={selectedRegion || searchLocation?.name || ''}
+                locationName={selectedRegionName || searchLocation?.name || ''}
+                isFavorite={currentLocation !== null && favoritesState.isFavorite(currentLocation.id)}
+                onToggleFavorite={currentLocation ? handleToggleFavorite : undefined}
                 className="shadow-sm"
               />
             )}
@@ -208,7 +565,7 @@ export default function HomePage() {
         <div className="container mx-auto px-4 py-4 sm:py-6">
           <div className="text-center text-xs sm:text-sm text-gray-600">
             <p className="mb-2">
-              数据来源: 
+              {t('app.dataSource')}
               <a 
                 href="https://open-meteo.com" 
                 target="_blank" 
@@ -219,7 +576,7 @@ export default function HomePage() {
               </a>
             </p>
             <p>
-              © 2024 长三角天气预报 - 基于 Next.js 构建
+              {t('app.footer')}
             </p>
           </div>
         </div>
@@ -227,3 +584,12 @@ export default function HomePage() {
     </div>
   );
 }
+
+export default function HomePage() {
+  // useSearchParams 需要 Suspense 边界，静态渲染时先输出占位
+  return (
+    <Suspense fallback={<div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50" />}>
+      <HomePageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,158 @@
+import React, { cache } from 'react';
+import type { Metadata } from 'next';
+import Link from 'next/link';
+import { notFound } from 'next/navigation';
+import RegionOutline from '@/components/map/RegionOutline';
+import LocalizedText from '@/components/settings/LocalizedText';
+import WeatherCard from '@/components/weather/WeatherCard';
+import DailyForecast from '@/components/weather/DailyForecast';
+import { createTranslator } from '@/lib/i18n';
+import { createFormatters } from '@/lib/i18n/format';
+import { getRegionCenter } from '@/lib/map-utils';
+import { DEFAULT_SETTINGS } from '@/lib/settings';
+import { findServerRegion } from '@/lib/server/geo';
+import { getForecast } from '@/lib/server/weather-service';
+import { DEFAULT_MAP_VIEW, serializeMapUrlState } from '@/lib/url-state';
+import { WeatherData } from '@/types';
+
+interface RegionPageProps {
+  params: Promise<{ adcode: string }>;
+}
+
+// 页面按请求渲染（上游请求不经 Next 数据缓存），天气由服务端缓存复用，
+// 元数据和页面共用一次查询
+const getRegionPageData = cache(async (adcodeParam: string) => {
+  if (!/^\d{6}$/.test(adcodeParam)) return null;
+
+  const region = await findServerRegion(Number(adcodeParam));
+  if (!region) return null;
+
+  const center = getRegionCenter(region.feature);
+  let weather: WeatherData | null = null;
+  try {
+    const data = await getForecast(center);
+    weather = {
+      ...data,
+      location: { name: region.feature.properties.name, latitude: center.lat, longitude: center.lng }
+    };
+  } catch (error) {
+    console.error(`Failed to fetch weather for ${adcodeParam}:`, error);
+  }
+
+  return { ...region, center, weather };
+});
+
+// 元数据供搜索引擎收录，在服务端按默认语言和单位生成
+export async function generateMetadata({ params }: RegionPageProps): Promise<Metadata> {
+  const { adcode } = await params;
+  const data = await getRegionPageData(adcode);
+  const t = createTranslator(DEFAULT_SETTINGS.locale);
+  const format = createFormatters(DEFAULT_SETTINGS, t);
+  if (!data) return { title: t('region.notFoundTitle') };
+
+  const { feature, city, weather } = data;
+  const fullName = city.properties.adcode === feature.properties.adcode
+    ? feature.properties.name
+    : t('region.fullName', { city: city.properties.name, name: feature.properties.name });
+  const title = t('region.metaTitle', { name: fullName });
+  const description = weather
+    ? t('region.metaDescription', {
+      name: fullName,
+      description: format.weatherDescription(weather.current.weatherCode),
+      temperature: format.temperature(weather.current.temperature),
+      min: format.temperature(weather.daily.temperatureMin[0]),
+      max: format.temperature(weather.daily.temperatureMax[0])
+    })
+    : t('region.metaDescriptionNoWeather', { name: fullName });
+
+  return {
+    title,
+    description,
+    openGraph: { title, description, type: 'website', locale: 'zh_CN' },
+    twitter: { card: 'summary', title, description }
+  };
+}
+
+export default async function RegionPage({ params }: RegionPageProps) {
+  const { adcode } = await params;
+  const data = await getRegionPageData(adcode);
+  if (!data) notFound();
+
+  const { feature, city, siblings, weather } = data;
+  const isCity = city.properties.adcode === feature.properties.adcode;
+
+  // 回到主地图时下钻到所属城市并选中该区县
+  const mapQuery = serializeMapUrlState({
+    region: feature.properties.adcode,
+    point: null,
+    location: null,
+    view: { ...DEFAULT_MAP_VIEW, city: isCity ? null : city.properties.adcode }
+  });
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-sky-50">
+      <header className="bg-white/80 backdrop-blur-sm border-b border-gray-200">
+        <div className="container mx-auto px-4 py-3 sm:py-4 flex items-center justify-between gap-3">
+          <div>
+            <nav aria-labelledby="region-hierarchy" className="text-xs sm:text-sm text-gray-500 mb-1">
+              <span id="region-hierarchy" hidden>
+                <LocalizedText message={{ key: 'region.hierarchy' }} />
+              </span>
+              <Link href="/" className="text-blue-600 hover:underline">
+                <LocalizedText message={{ key: 'map.root' }} />
+              </Link>
+              {!isCity && <span> / {city.properties.name}</span>}
+            </nav>
+            <h1 className="text-xl sm:text-2xl font-bold text-gray-800">
+              <LocalizedText message={{ key: 'region.title', params: { name: feature.properties.name } }} />
+            </h1>
+          </div>
+          <Link
+            href={`/?${mapQuery}`}
+            className="text-sm text-blue-600 border border-blue-200 rounded-md px-3 py-1.5 hover:bg-blue-50"
+          >
+            <LocalizedText message={{ key: 'region.viewOnMap' }} />
+          </Link>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-4 sm:py-6 grid grid-cols-1 lg:grid-cols-3 gap-4 sm:gap-6">
+        <section className="lg:col-span-2 space-y-4">
+          <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-3 sm:p-4">
+            <RegionOutline
+              feature={feature}
+              context={isCity ? [] : siblings}
+              className="w-full h-auto max-h-[420px]"
+            />
+            <p className="text-xs text-gray-500 mt-2">
+              <LocalizedText message={{ key: 'region.adcode', params: { adcode: feature.properties.adcode } }} />
+              {!isCity && <LocalizedText message={{ key: 'region.parent', params: { city: city.properties.name } }} />}
+            </p>
+          </div>
+
+          {weather && (
+            <div className="bg-white rounded-xl shadow-sm border border-gray-200 p-3 sm:p-4">
+              <h2 className="font-semibold text-gray-800 mb-2">
+                <LocalizedText message={{ key: 'weather.nextDays', params: { days: 7 } }} />
+              </h2>
+              <DailyForecast daily={weather.daily} />
+            </div>
+          )}
+        </section>
+
+        <section>
+          {weather ? (
+            <WeatherCard weatherData={weather} locationName={feature.properties.name} className="shadow-sm" />
+          ) : (
+            <div className="bg-white rounded-xl shadow-sm border border-red-200 p-4 sm:p-6 text-center">
+              <div className="text-red-500 text-xl sm:text-2xl mb-2">⚠️</div>
+              <p className="text-red-600 text-sm">
+                <LocalizedText message={{ key: 'region.weatherFailed' }} />
+              </p>
+            </div>
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
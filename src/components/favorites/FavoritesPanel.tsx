@@ -0,0 +1,231 @@
+'use client';
+
+import React, { useCallback, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, Download, Pencil, Star, Trash2, Upload } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { FavoriteLocation, WEATHER_CODES } from '@/types';
+import { evaluateAlerts } from '@/lib/alerts';
+import { FavoritesFormatError, MAX_FAVORITES, getFavoriteLabel } from '@/lib/favorites';
+import { Message } from '@/lib/i18n';
+import { FavoritesState } from '@/hooks/useFavorites';
+import { useSettings } from '@/hooks/useSettings';
+import { useLocationsWeather } from '@/hooks/useLocationsWeather';
+import AlertBadge from '@/components/weather/AlertBadge';
+
+interface FavoritesPanelProps {
+  favoritesState: FavoritesState;
+  selectedId?: string | null;
+  onSelect: (favorite: FavoriteLocation) => void;
+  className?: string;
+}
+
+/**
+ * 收藏列表：显示各地点的实时天气摘要，支持排序、重命名和导入导出
+ */
+const FavoritesPanel: React.FC<FavoritesPanelProps> = ({
+  favoritesState,
+  selectedId = null,
+  onSelect,
+  className = ''
+}) => {
+  const { settings, t, format } = useSettings();
+  const { favorites, remove, rename, move, importJson, exportJson } = favoritesState;
+  const weather = useLocationsWeather(favorites);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [message, setMessage] = useState<Message | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const startEditing = useCallback((favorite: FavoriteLocation) => {
+    setEditingId(favorite.id);
+    setDraft(getFavoriteLabel(favorite));
+  }, []);
+
+  const commitEditing = useCallback(() => {
+    if (editingId) rename(editingId, draft);
+    setEditingId(null);
+  }, [editingId, draft, rename]);
+
+  // 导出为 JSON 文件下载
+  const handleExport = useCallback(() => {
+    const blob = new Blob([exportJson()], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `weather-favorites-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [exportJson]);
+
+  const handleImport = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      const added = importJson(await file.text());
+      setMessage(added > 0 ? { key: 'favorites.imported', params: { count: added } } : { key: 'favorites.nothingImported' });
+    } catch (error) {
+      console.error('Failed to import favorites:', error);
+      setMessage({ key: error instanceof FavoritesFormatError ? 'favorites.invalidFile' : 'favorites.importFailed' });
+    }
+  }, [importJson]);
+
+  return (
+    <Card className={`w-full ${className}`}>
+      <CardHeader className="pb-2 sm:pb-3">
+        <CardTitle className="flex items-center justify-between text-base sm:text-lg font-semibold">
+          <span className="flex items-center gap-2">
+            <Star className="h-4 w-4 text-amber-500" />
+            {t('favorites.title')}
+            <span className="text-xs font-normal text-gray-500">
+              {favorites.length}/{MAX_FAVORITES}
+            </span>
+          </span>
+          <span className="flex gap-1">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              onClick={() => fileInputRef.current?.click()}
+              title={t('favorites.import')}
+              aria-label={t('favorites.import')}
+            >
+              <Upload className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="size-7"
+              onClick={handleExport}
+              disabled={favorites.length === 0}
+              title={t('favorites.export')}
+              aria-label={t('favorites.export')}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+          </span>
+        </CardTitle>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={handleImport}
+        />
+        {message && (
+          <p role="status" className="text-xs text-gray-500">{t(message.key, message.params)}</p>
+        )}
+      </CardHeader>
+
+      <CardContent>
+        {favorites.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-2">
+            {t('favorites.empty')}
+          </p>
+        ) : (
+          <ul className="space-y-1" aria-label={t('favorites.title')}>
+            {favorites.map((favorite, index) => {
+              const data = weather.data[favorite.id];
+              const alerts = data ? evaluateAlerts(data, settings.alertThresholds) : [];
+              const label = getFavoriteLabel(favorite);
+
+              return (
+                <li
+                  key={favorite.id}
+                  className={`flex items-center gap-2 rounded-lg px-2 py-1.5 ${
+                    favorite.id === selectedId ? 'bg-blue-50' : 'hover:bg-gray-50'
+                  }`}
+                >
+                  {editingId === favorite.id ? (
+                    <Input
+                      value={draft}
+                      onChange={e => setDraft(e.target.value)}
+                      onBlur={commitEditing}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') commitEditing();
+                        if (e.key === 'Escape') setEditingId(null);
+                      }}
+                      className="h-7 text-sm flex-1"
+                      aria-label={t('favorites.labelInput', { name: favorite.name })}
+                      autoFocus
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => onSelect(favorite)}
+                      className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                    >
+                      <span className="text-lg" aria-hidden="true">
+                        {data ? WEATHER_CODES[data.current.weatherCode]?.icon ?? '🌤️' : '·'}
+                      </span>
+                      <span className="flex-1 min-w-0">
+                        <span className="block text-sm font-medium text-gray-800 truncate">{label}</span>
+                        {favorite.label && (
+                          <span className="block text-xs text-gray-400 truncate">{favorite.name}</span>
+                        )}
+                      </span>
+                      <span className="text-sm font-semibold tabular-nums">
+                        {data
+                          ? format.temperature(data.current.temperature)
+                          : weather.errors[favorite.id] ? '--' : '…'}
+                      </span>
+                      {alerts.length > 0 && (
+                        <AlertBadge severity={alerts[0].severity} label={format.alertTitle(alerts[0])} />
+                      )}
+                    </button>
+                  )}
+
+                  <span className="flex shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6"
+                      onClick={() => move(favorite.id, -1)}
+                      disabled={index === 0}
+                      aria-label={t('favorites.moveUp', { name: label })}
+                    >
+                      <ArrowUp className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6"
+                      onClick={() => move(favorite.id, 1)}
+                      disabled={index === favorites.length - 1}
+                      aria-label={t('favorites.moveDown', { name: label })}
+                    >
+                      <ArrowDown className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6"
+                      onClick={() => startEditing(favorite)}
+                      aria-label={t('favorites.rename', { name: label })}
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="size-6 text-gray-400 hover:text-red-600"
+                      onClick={() => remove(favorite.id)}
+                      aria-label={t('favorites.removeNamed', { name: label })}
+                    >
+                      <Trash2 className="h-3.5 w-3.5" />
+                    </Button>
+                  </span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FavoritesPanel;
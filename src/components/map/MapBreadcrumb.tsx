@@ -0,0 +1,45 @@
+'use client';
+
+import React from 'react';
+import { ChevronRight } from 'lucide-react';
+import { useSettings } from '@/hooks/useSettings';
+
+export interface BreadcrumbItem {
+  label: string;
+  /** 为空表示当前层级，不可点击 */
+  onClick?: () => void;
+}
+
+interface MapBreadcrumbProps {
+  items: BreadcrumbItem[];
+  className?: string;
+}
+
+const MapBreadcrumb: React.FC<MapBreadcrumbProps> = ({ items, className = '' }) => {
+  const { t } = useSettings();
+
+  return (
+    <nav aria-label={t('map.breadcrumb')} className={`flex items-center gap-1 text-xs sm:text-sm ${className}`}>
+      {items.map((item, index) => (
+        <React.Fragment key={`${item.label}-${index}`}>
+          {index > 0 && <ChevronRight className="h-3 w-3 text-gray-400" />}
+          {item.onClick ? (
+            <button
+              type="button"
+              onClick={item.onClick}
+              className="text-blue-600 hover:text-blue-800 hover:underline"
+            >
+              {item.label}
+            </button>
+          ) : (
+            <span className="font-medium text-gray-800" aria-current="location">
+              {item.label}
+            </span>
+          )}
+        </React.Fragment>
+      ))}
+    </nav>
+  );
+};
+
+export default MapBreadcrumb;
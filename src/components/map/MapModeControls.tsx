@@ -0,0 +1,88 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Map as MapIcon, Thermometer, TriangleAlert } from 'lucide-react';
+import { MapMode, WeatherMetric } from '@/types';
+import { METRIC_SCALES } from '@/lib/color-scale';
+import { useSettings } from '@/hooks/useSettings';
+
+interface MapModeControlsProps {
+  mode: MapMode;
+  metric: WeatherMetric;
+  onModeChange: (mode: MapMode) => void;
+  onMetricChange: (metric: WeatherMetric) => void;
+  /** 是否显示预警轮廓 */
+  showAlerts: boolean;
+  onShowAlertsChange: (show: boolean) => void;
+  className?: string;
+}
+
+const METRICS = Object.keys(METRIC_SCALES) as WeatherMetric[];
+
+const MapModeControls: React.FC<MapModeControlsProps> = ({
+  mode,
+  metric,
+  onModeChange,
+  onMetricChange,
+  showAlerts,
+  onShowAlertsChange,
+  className = ''
+}) => {
+  const { t, format } = useSettings();
+
+  return (
+    <div className={`flex flex-col gap-1 ${className}`}>
+      {/* 模式切换 */}
+      <div className="flex gap-1 bg-white/90 backdrop-blur-sm rounded-lg p-1 shadow-lg border border-gray-200">
+        <Button
+          variant={mode === 'region' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => onModeChange('region')}
+          title={t('map.modeRegionTitle')}
+        >
+          <MapIcon className="h-4 w-4" />
+          {t('map.modeRegion')}
+        </Button>
+        <Button
+          variant={mode === 'weather' ? 'default' : 'ghost'}
+          size="sm"
+          onClick={() => onModeChange('weather')}
+          title={t('map.modeWeatherTitle')}
+        >
+          <Thermometer className="h-4 w-4" />
+          {t('map.modeWeather')}
+        </Button>
+        <Button
+          variant={showAlerts ? 'secondary' : 'ghost'}
+          size="sm"
+          onClick={() => onShowAlertsChange(!showAlerts)}
+          aria-pressed={showAlerts}
+          title={t(showAlerts ? 'map.hideAlerts' : 'map.showAlerts')}
+        >
+          <TriangleAlert className="h-4 w-4" />
+          {t('map.alerts')}
+        </Button>
+      </div>
+
+      {/* 指标选择 */}
+      {mode === 'weather' && (
+        <div className="flex flex-wrap gap-1 bg-white/90 backdrop-blur-sm rounded-lg p-1 shadow-lg border border-gray-200">
+          {METRICS.map(item => (
+            <Button
+              key={item}
+              variant={metric === item ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => onMetricChange(item)}
+            >
+              {format.metricLabel(item)}
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MapModeControls;
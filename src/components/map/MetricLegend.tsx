@@ -0,0 +1,56 @@
+'use client';
+
+import React from 'react';
+import { WeatherMetric } from '@/types';
+import { ScaleDomain, getMetricGradient } from '@/lib/color-scale';
+import { useSettings } from '@/hooks/useSettings';
+
+interface MetricLegendProps {
+  metric: WeatherMetric;
+  domain: ScaleDomain | null;
+  loading?: boolean;
+  className?: string;
+}
+
+const MetricLegend: React.FC<MetricLegendProps> = ({
+  metric,
+  domain,
+  loading = false,
+  className = ''
+}) => {
+  const { t, format } = useSettings();
+  const middle = domain ? (domain.min + domain.max) / 2 : null;
+
+  return (
+    <div className={`bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg w-48 ${className}`}>
+      <div className="text-sm font-medium text-gray-700 mb-2">
+        {format.metricLabel(metric)} ({format.metricUnit(metric)})
+      </div>
+
+      {loading && !domain ? (
+        <div className="text-xs text-gray-500">{t('map.legendLoading')}</div>
+      ) : domain ? (
+        <>
+          <div
+            className="h-3 rounded border border-gray-300"
+            style={{ background: getMetricGradient(metric) }}
+          />
+          <div className="flex justify-between text-xs text-gray-600 mt-1">
+            <span>{format.metricValue(metric, domain.min)}</span>
+            {middle !== null && <span>{format.metricValue(metric, middle)}</span>}
+            <span>{format.metricValue(metric, domain.max)}</span>
+          </div>
+        </>
+      ) : (
+        <div className="text-xs text-gray-500">{t('map.legendEmpty')}</div>
+      )}
+
+      <div className="flex items-center gap-2 mt-2 text-xs">
+        <div className="w-3 h-3 bg-gray-100 border border-gray-300 rounded"></div>
+        <span className="text-gray-600">{t('map.noData')}</span>
+      </div>
+    </div>
+  );
+};
+
+export default MetricLegend;
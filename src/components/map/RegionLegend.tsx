@@ -0,0 +1,36 @@
+'use client';
+
+import React from 'react';
+import { REGION_LAYERS } from '@/lib/regions';
+import { useSettings } from '@/hooks/useSettings';
+
+interface RegionLegendProps {
+  className?: string;
+}
+
+const RegionLegend: React.FC<RegionLegendProps> = ({ className = '' }) => {
+  const { t } = useSettings();
+
+  return (
+    <div className={`bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg max-h-48 overflow-y-auto ${className}`}>
+      <div className="text-sm font-medium text-gray-700 mb-2">{t('map.legend')}</div>
+      <div className="space-y-1 text-xs">
+        {REGION_LAYERS.map(layer => (
+          <div key={layer.id} className="flex items-center gap-2">
+            <div
+              className="w-3 h-3 border border-gray-300 rounded"
+              style={{ backgroundColor: layer.color }}
+            ></div>
+            <span className="text-gray-600">{layer.name}</span>
+          </div>
+        ))}
+        <div className="flex items-center gap-2">
+          <div className="w-3 h-3 bg-blue-500 border border-blue-700 rounded"></div>
+          <span className="text-gray-600">{t('map.selected')}</span>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RegionLegend;
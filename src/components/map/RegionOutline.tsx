@@ -0,0 +1,62 @@
+import React from 'react';
+import { GeoFeature } from '@/types';
+import LocalizedText from '@/components/settings/LocalizedText';
+import { calculateBounds, projectFeatures } from '@/lib/map-utils';
+
+interface RegionOutlineProps {
+  feature: GeoFeature;
+  /** 周边区县，以浅色绘制作为参照 */
+  context?: GeoFeature[];
+  width?: number;
+  height?: number;
+  className?: string;
+}
+
+/**
+ * 静态区域轮廓图，不含交互，可在服务端渲染
+ */
+const RegionOutline: React.FC<RegionOutlineProps> = ({
+  feature,
+  context = [],
+  width = 480,
+  height = 320,
+  className = ''
+}) => {
+  const features = context.length > 0 ? context : [feature];
+  const bounds = calculateBounds({ type: 'FeatureCollection', features }, 0.05, { width, height });
+  const projected = projectFeatures(features, bounds, 0.5);
+  const target = projected.find(item => item.feature.properties.adcode === feature.properties.adcode)
+    ?? projectFeatures([feature], bounds, 0.5)[0];
+
+  // 无障碍名称随界面语言变化，放在隐藏元素中由 aria-labelledby 引用
+  const labelId = `region-outline-${feature.properties.adcode}`;
+
+  return (
+    <>
+      <span id={labelId} hidden>
+        <LocalizedText message={{ key: 'region.outline', params: { name: feature.properties.name } }} />
+      </span>
+      <svg
+        viewBox={`0 0 ${bounds.width} ${bounds.height}`}
+        className={className}
+        role="img"
+        aria-labelledby={labelId}
+      >
+        {projected
+          .filter(item => item !== target)
+          .map(item => (
+            <path
+              key={item.feature.properties.adcode}
+              d={item.path}
+              fill="#f1f5f9"
+              stroke="#cbd5e1"
+              strokeWidth={1}
+            />
+          ))}
+        <path d={target.path} fill="#3b82f6" fillOpacity={0.85} stroke="#1d4ed8" strokeWidth={2} />
+      </svg>
+    </>
+  );
+};
+
+export default RegionOutline;
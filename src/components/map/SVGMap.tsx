@@ -1,295 +1,791 @@
 'use client';
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { GeoData, GeoFeature, Coordinates } from '@/types';
+import React, { useState, useEffect, useCallback, useRef, useMemo, useId } from 'react';
+import { GeoFeature, CompareLocation, Coordinates, MapMode, MapView, WeatherMetric } from '@/types';
 import { 
-  loadCombinedMapData, 
   calculateBounds, 
-  coordinatesToSVGPath, 
+  projectFeatures,
   projectCoordinate,
+  unprojectPoint,
+  findFeatureAtCoordinate,
+  findFeatureInDirection,
+  computeAdjacency,
+  sortFeaturesGeographically,
   getRegionCenter,
-  MapBounds 
+  getSimplificationTolerance,
+  MapDirection,
+  ProjectionType 
 } from '@/lib/map-utils';
+import {
+  MetricAggregate,
+  aggregateMetricValues,
+  calculateDomain,
+  getMetricColor,
+  getMetricSeries,
+  getMetricValue
+} from '@/lib/color-scale';
+import { getRegionLayer, UNKNOWN_REGION_COLOR } from '@/lib/regions';
+import { DEFAULT_MAP_VIEW, isSameMapView } from '@/lib/url-state';
+import {
+  ALERT_SEVERITY_STYLES,
+  AlertSeverity,
+  RegionAlerts,
+  evaluateAlerts,
+  getHighestSeverity
+} from '@/lib/alerts';
+import { COMPARE_COLORS } from '@/lib/compare';
+import { useRegionWeather } from '@/hooks/useRegionWeather';
+import { useRegionIndex } from '@/hooks/useRegionIndex';
+import { useSettings } from '@/hooks/useSettings';
+import { clientToSvgPoint, useMapGestures } from '@/hooks/useMapGestures';
 import ZoomControls from './ZoomControls';
+import MapModeControls from './MapModeControls';
+import MetricLegend from './MetricLegend';
+import RegionLegend from './RegionLegend';
+import TimeSlider from './TimeSlider';
+import MapBreadcrumb, { BreadcrumbItem } from './MapBreadcrumb';
+
+// 方向键与导航方向的对应关系
+const ARROW_DIRECTIONS: Record<string, MapDirection> = {
+  ArrowUp: 'up',
+  ArrowDown: 'down',
+  ArrowLeft: 'left',
+  ArrowRight: 'right'
+};
+
+// 缩放范围
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 3;
 
 interface SVGMapProps {
-  onRegionClick?: (regionName: string, coordinates: [number, number]) => void;
-  selectedRegion?: string;
+  /** 选择区县的回调，传递区县 adcode 与选择位置的坐标 */
+  onRegionClick?: (adcode: number, coordinates: Coordinates) => void;
+  /** 按住 Shift 点击（或 Shift+回车）区域时的回调，用于加入对比 */
+  onRegionCompare?: (adcode: number, coordinates: Coordinates) => void;
+  /** 选中区县的 adcode */
+  selectedAdcode?: number | null;
+  /** 选中的位置，显示为标记 */
+  selectedPoint?: Coordinates;
+  /** 对比中的地点，显示为带序号的标记 */
+  compareLocations?: CompareLocation[];
+  /** 外部指定的视图（如从 URL 恢复），对象变化时应用到地图 */
+  view?: MapView;
+  /** 视图变化回调，层级、模式和预警图层变化为 push，平移缩放为 replace */
+  onViewChange?: (view: MapView, history: 'push' | 'replace') => void;
+  /** 各区县预警变化回调，仅包含有预警的区县；关闭预警图层时为 null */
+  onAlertsChange?: (alerts: RegionAlerts[] | null) => void;
+  /** 地图投影，默认 Web Mercator */
+  projection?: ProjectionType;
   className?: string;
 }
 
 const SVGMap: React.FC<SVGMapProps> = ({ 
   onRegionClick, 
-  selectedRegion, 
+  onRegionCompare,
+  selectedAdcode = null, 
+  selectedPoint,
+  compareLocations = [],
+  view,
+  onViewChange,
+  onAlertsChange,
+  projection = 'mercator',
   className = '' 
 }) => {
-  const [mapData, setMapData] = useState<GeoData | null>(null);
-  const [bounds, setBounds] = useState<MapBounds | null>(null);
-  const [hoveredRegion, setHoveredRegion] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [zoomLevel, setZoomLevel] = useState(1);
-  const [panOffset, setPanOffset] = useState({ x: 0, y: 0 });
-  const [isDragging, setIsDragging] = useState(false);
-  const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
+  const { settings, t, format } = useSettings();
+  const { alertThresholds } = settings;
+  const { index: regionIndex, loading, error } = useRegionIndex();
+  const hierarchy = regionIndex?.hierarchy ?? null;
+  // 当前下钻到的城市 adcode，为空时显示市级总览
+  const [drillCity, setDrillCity] = useState<number | null>(null);
+  const [hoveredAdcode, setHoveredAdcode] = useState<number | null>(null);
+  const [mapMode, setMapMode] = useState<MapMode>('region');
+  const [metric, setMetric] = useState<WeatherMetric>('temperature');
+  const [timeIndex, setTimeIndex] = useState<number | null>(null);
+  // 预警需要获取全部区县的预报，默认关闭，由用户开启
+  const [showAlerts, setShowAlerts] = useState(false);
+  // SVG画布的实际像素尺寸，viewBox 与之一致以保持数据宽高比
+  const [viewport, setViewport] = useState({ width: 800, height: 600 });
+  const [viewportMeasured, setViewportMeasured] = useState(false);
   const svgRef = useRef<SVGSVGElement>(null);
+  const instructionsId = useId();
+  // 区域路径元素，用于键盘导航时移动焦点
+  const pathRefs = useRef(new Map<number, SVGPathElement>());
+  // 层级切换后待聚焦的要素
+  const pendingFocusRef = useRef<number | null>(null);
+
+  // 当前层级显示的要素
+  const visibleFeatures = useMemo(() => {
+    if (!hierarchy) return null;
+    const features = drillCity !== null ? hierarchy.districts[drillCity] ?? [] : hierarchy.cities;
+    // 按地理位置排序，Tab 键依此顺序移动焦点
+    return sortFeaturesGeographically(features);
+  }, [hierarchy, drillCity]);
+
+  // 当前层级要素的相邻关系，用于方向键导航
+  const adjacency = useMemo(
+    () => (visibleFeatures ? computeAdjacency(visibleFeatures) : {}),
+    [visibleFeatures]
+  );
+
+  // 按当前层级的要素计算边界，下钻时地图随之缩放到该城市
+  const bounds = useMemo(() => {
+    if (!visibleFeatures || visibleFeatures.length === 0) return null;
+    return calculateBounds({ type: 'FeatureCollection', features: visibleFeatures }, 0.1, {
+      width: viewport.width,
+      height: viewport.height,
+      projection
+    });
+  }, [visibleFeatures, viewport, projection]);
 
-  // 加载地图数据
+  // 监听画布尺寸变化
+  const mapReady = visibleFeatures !== null;
   useEffect(() => {
-    const loadMapData = async () => {
-      try {
-        setLoading(true);
-        const { combined } = await loadCombinedMapData();
-        const mapBounds = calculateBounds(combined);
-        
-        setMapData(combined);
-        setBounds(mapBounds);
-        setError(null);
-      } catch (err) {
-        console.error('Failed to load map data:', err);
-        setError('地图数据加载失败');
-      } finally {
-        setLoading(false);
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const observer = new ResizeObserver(([entry]) => {
+      const width = Math.round(entry.contentRect.width);
+      const height = Math.round(entry.contentRect.height);
+      if (width > 0 && height > 0) {
+        setViewport(prev => (prev.width === width && prev.height === height ? prev : { width, height }));
+        setViewportMeasured(true);
+      }
+    });
+    observer.observe(svg);
+    return () => observer.disconnect();
+  }, [mapReady]);
+
+  // 平移缩放手势（鼠标、触摸、触控笔统一处理）
+  const gestures = useMapGestures(svgRef, {
+    width: bounds?.width ?? viewport.width,
+    height: bounds?.height ?? viewport.height,
+    minZoom: MIN_ZOOM,
+    maxZoom: MAX_ZOOM,
+    enabled: mapReady
+  });
+  const { transform, zoomBy, setTransform, reset: resetTransform } = gestures;
+  const zoomLevel = transform.zoom;
+
+  // 投影后的路径按边界和缩放档位缓存，拖拽、悬停时不再重复计算
+  const simplificationTolerance = getSimplificationTolerance(zoomLevel);
+  const projectedFeatures = useMemo(() => {
+    if (!visibleFeatures || !bounds) return [];
+    return projectFeatures(visibleFeatures, bounds, simplificationTolerance);
+  }, [visibleFeatures, bounds, simplificationTolerance]);
+
+  // 天气数据按最细一级（区县，或无区县数据的城市）获取，上级由下级汇总
+  const leafFeatures = useMemo(() => regionIndex?.getLeafFeatures() ?? null, [regionIndex]);
+
+  // 仅在专题地图或预警图层需要时获取全部区县的预报
+  const regionWeather = useRegionWeather(leafFeatures, mapMode === 'weather' || showAlerts);
+
+  // 按区县评估预警，预警图层关闭时为空
+  const regionAlerts = useMemo(() => {
+    const result: Record<number, RegionAlerts> = {};
+    if (!showAlerts) return result;
+    leafFeatures?.forEach(feature => {
+      const { adcode, name } = feature.properties;
+      const weather = regionWeather.data[adcode];
+      if (!weather) return;
+
+      const alerts = evaluateAlerts(weather, alertThresholds);
+      const severity = getHighestSeverity(alerts);
+      if (severity) {
+        // 重名区县附带城市名，便于在预警列表中区分
+        const label = regionIndex?.getLabel(adcode) ?? name;
+        result[adcode] = {
+          adcode,
+          name: label,
+          coordinates: getRegionCenter(feature),
+          timeZone: weather.timezone,
+          alerts,
+          severity
+        };
       }
+    });
+    return result;
+  }, [showAlerts, leafFeatures, regionIndex, regionWeather.data, alertThresholds]);
+
+  // 天气数据到达后再上报，避免加载中被当作无预警
+  const hasRegionWeather = Object.keys(regionWeather.data).length > 0;
+  useEffect(() => {
+    if (!showAlerts) {
+      onAlertsChange?.(null);
+    } else if (hasRegionWeather) {
+      onAlertsChange?.(Object.values(regionAlerts));
+    }
+  }, [showAlerts, regionAlerts, hasRegionWeather, onAlertsChange]);
+
+  // 区域的最高预警级别，市级取下辖区县中的最高级别
+  const getFeatureAlertSeverity = useCallback((feature: GeoFeature): AlertSeverity | null => {
+    const adcode = feature.properties.adcode;
+    if (drillCity === null && hierarchy?.districts[adcode]) {
+      return getHighestSeverity(
+        hierarchy.districts[adcode].flatMap(district => regionAlerts[district.properties.adcode] ?? [])
+      );
+    }
+    return regionAlerts[adcode]?.severity ?? null;
+  }, [drillCity, hierarchy, regionAlerts]);
+
+  // 逐小时预报时间轴（各区县时区相同，取任一区县即可），从当前小时开始
+  const forecastTimeline = useMemo(() => {
+    const sample = Object.values(regionWeather.data)[0];
+    if (!sample) return { times: [] as string[], start: 0, timeZone: '' };
+
+    const currentHour = sample.current.time.slice(0, 13);
+    const start = sample.hourly.time.findIndex(time => time.slice(0, 13) >= currentHour);
+    return { times: sample.hourly.time, start: Math.max(0, start), timeZone: sample.timezone };
+  }, [regionWeather.data]);
+
+  // 选定时次下指标在各区县的取值
+  const metricValues = useMemo(() => {
+    const values: Record<number, number> = {};
+    Object.entries(regionWeather.data).forEach(([adcode, weather]) => {
+      values[Number(adcode)] = getMetricValue(metric, weather, timeIndex);
+    });
+    return values;
+  }, [regionWeather.data, metric, timeIndex]);
+
+  // 各城市下辖区县的指标汇总（最小、最大、平均）
+  const cityAggregates = useMemo(() => {
+    const aggregates: Record<number, MetricAggregate> = {};
+    if (!hierarchy) return aggregates;
+
+    hierarchy.cities.forEach(city => {
+      const cityAdcode = city.properties.adcode;
+      const values = (hierarchy.districts[cityAdcode] ?? [])
+        .map(district => metricValues[district.properties.adcode])
+        .filter((value): value is number => value !== undefined);
+      const aggregate = aggregateMetricValues(values);
+      if (aggregate) aggregates[cityAdcode] = aggregate;
+    });
+    return aggregates;
+  }, [hierarchy, metricValues]);
+
+  // 当前视图：画布中心对应的地理坐标与层级、模式
+  const currentView = useMemo<MapView | null>(() => {
+    if (!bounds || !viewportMeasured) return null;
+    const isDefault = transform.zoom === 1 && transform.x === 0 && transform.y === 0;
+    return {
+      city: drillCity,
+      zoom: transform.zoom,
+      center: isDefault ? null : unprojectPoint({
+        x: (bounds.width / 2 - transform.x) / transform.zoom,
+        y: (bounds.height / 2 - transform.y) / transform.zoom
+      }, bounds),
+      mode: mapMode,
+      metric,
+      alerts: showAlerts
     };
+  }, [bounds, viewportMeasured, transform, drillCity, mapMode, metric, showAlerts]);
+
+  // 已应用的外部视图，以及最近一次通知出去的视图
+  const appliedViewRef = useRef<MapView | undefined>(undefined);
+  const emittedViewRef = useRef<MapView | null>(null);
+  const applyingViewRef = useRef(false);
+
+  // 应用外部视图：先切换层级，待边界更新后再恢复平移缩放
+  useEffect(() => {
+    if (!view || view === appliedViewRef.current || !hierarchy || !bounds || !viewportMeasured) return;
+
+    const targetCity = view.city !== null && hierarchy.districts[view.city] ? view.city : null;
+    if (drillCity !== targetCity) {
+      setDrillCity(targetCity);
+      setHoveredAdcode(null);
+      return;
+    }
+
+    setMapMode(view.mode);
+    setMetric(view.metric);
+    setShowAlerts(view.alerts);
+    if (view.center) {
+      const point = projectCoordinate(view.center, bounds);
+      setTransform({
+        zoom: view.zoom,
+        x: bounds.width / 2 - view.zoom * point.x,
+        y: bounds.height / 2 - view.zoom * point.y
+      });
+    } else {
+      resetTransform();
+    }
+
+    appliedViewRef.current = view;
+    emittedViewRef.current = view;
+    applyingViewRef.current = true;
+  }, [view, hierarchy, bounds, viewportMeasured, drillCity, setTransform, resetTransform]);
+
+  // 视图变化时通知外部；应用外部视图引起的变化不再回传
+  useEffect(() => {
+    if (!currentView || !onViewChange) return;
+    if (view && view !== appliedViewRef.current) return;
+    if (applyingViewRef.current) {
+      applyingViewRef.current = false;
+      return;
+    }
 
-    loadMapData();
-  }, []);
+    const previous = emittedViewRef.current ?? DEFAULT_MAP_VIEW;
+    emittedViewRef.current = currentView;
+    if (isSameMapView(previous, currentView)) return;
 
-  // 处理区域点击
-  const handleRegionClick = useCallback((feature: GeoFeature) => {
+    const isNavigation = previous.city !== currentView.city
+      || previous.mode !== currentView.mode
+      || previous.metric !== currentView.metric
+      || previous.alerts !== currentView.alerts;
+    onViewChange(currentView, isNavigation ? 'push' : 'replace');
+  }, [currentView, view, onViewChange]);
+
+  // 要素在当前层级的着色值：市级取区县平均值
+  const getFeatureValue = useCallback((feature: GeoFeature): number | undefined => {
+    const adcode = feature.properties.adcode;
+    return drillCity === null ? cityAggregates[adcode]?.mean : metricValues[adcode];
+  }, [drillCity, cityAggregates, metricValues]);
+
+  // 播放预报时使用整个时间轴的取值范围，保证各时次颜色可比
+  const isForecastView = timeIndex !== null;
+  const metricDomain = useMemo(() => {
+    if (!isForecastView) {
+      return calculateDomain(metric, Object.values(metricValues));
+    }
+    const allValues = Object.values(regionWeather.data).flatMap(weather =>
+      getMetricSeries(metric, weather).slice(forecastTimeline.start)
+    );
+    return calculateDomain(metric, allValues);
+  }, [metric, metricValues, isForecastView, regionWeather.data, forecastTimeline.start]);
+
+  // 将点击位置换算为地理坐标（先还原平移缩放，再反投影）
+  const getEventCoordinate = useCallback((e: React.MouseEvent): Coordinates | null => {
+    const svg = svgRef.current;
+    const point = svg && clientToSvgPoint(svg, e.clientX, e.clientY);
+    if (!point || !bounds) return null;
+
+    return unprojectPoint({
+      x: (point.x - transform.x) / transform.zoom,
+      y: (point.y - transform.y) / transform.zoom
+    }, bounds);
+  }, [bounds, transform]);
+
+  // 选择区域：取选择位置的坐标，并反查其所在的区县
+  const handleRegionSelect = useCallback((feature: GeoFeature, coordinate: Coordinates) => {
     if (!onRegionClick) return;
-    
-    const center = getRegionCenter(feature);
-    // 传递区域名称和坐标数组[longitude, latitude]
-    onRegionClick(feature.properties.name, [center.lng, center.lat]);
-  }, [onRegionClick]);
-
-  // 获取城市类型
-  const getCityType = useCallback((adcode: number): string => {
-    const codeStr = String(adcode);
-    if (codeStr.startsWith('310')) return 'shanghai';
-    if (codeStr.startsWith('3301')) return 'hangzhou';
-    if (codeStr.startsWith('3305')) return 'huzhou';
-    if (codeStr.startsWith('3304')) return 'jiaxing';
-    if (codeStr.startsWith('3302')) return 'ningbo';
-    if (codeStr.startsWith('3306')) return 'shaoxing';
-    if (codeStr.startsWith('3309')) return 'zhoushan';
-    return 'unknown';
-  }, []);
+
+    const district = (leafFeatures && findFeatureAtCoordinate(leafFeatures, coordinate)) ?? feature;
+    onRegionClick(district.properties.adcode, coordinate);
+  }, [onRegionClick, leafFeatures]);
+
+  // 加入对比：不下钻，直接取点击位置所在的区县
+  const handleRegionCompare = useCallback((feature: GeoFeature, coordinate: Coordinates) => {
+    if (!onRegionCompare) return;
+
+    const district = (leafFeatures && findFeatureAtCoordinate(leafFeatures, coordinate)) ?? feature;
+    onRegionCompare(district.properties.adcode, coordinate);
+  }, [onRegionCompare, leafFeatures]);
+
+  // 切换下钻层级，并重置缩放和平移
+  const handleDrill = useCallback((cityAdcode: number | null) => {
+    setDrillCity(cityAdcode);
+    setHoveredAdcode(null);
+    resetTransform();
+  }, [resetTransform]);
+
+  // 市级视图中有区县数据的城市可以下钻
+  const canDrillInto = useCallback((feature: GeoFeature) => {
+    const adcode = feature.properties.adcode;
+    const children = hierarchy?.districts[adcode] ?? [];
+    return drillCity === null && children.some(child => child.properties.adcode !== adcode);
+  }, [hierarchy, drillCity]);
+
+  // 激活要素（点击或回车）：可下钻时下钻，否则按区域选择处理
+  const handleFeatureActivate = useCallback((feature: GeoFeature, coordinate: Coordinates) => {
+    if (canDrillInto(feature)) {
+      handleDrill(feature.properties.adcode);
+      return;
+    }
+    handleRegionSelect(feature, coordinate);
+  }, [canDrillInto, handleDrill, handleRegionSelect]);
+
+  const handleFeatureClick = useCallback((feature: GeoFeature, e: React.MouseEvent) => {
+    const coordinate = getEventCoordinate(e);
+    if (!coordinate) return;
+
+    if (e.shiftKey && onRegionCompare) {
+      handleRegionCompare(feature, coordinate);
+    } else {
+      handleFeatureActivate(feature, coordinate);
+    }
+  }, [getEventCoordinate, handleFeatureActivate, handleRegionCompare, onRegionCompare]);
+
+  // 区域上的键盘操作：方向键移到相邻区域，回车或空格选择，Esc 返回上级
+  const handleFeatureKeyDown = useCallback((feature: GeoFeature, e: React.KeyboardEvent) => {
+    const direction = ARROW_DIRECTIONS[e.key];
+    if (direction && visibleFeatures) {
+      e.preventDefault();
+      const target = findFeatureInDirection(feature, direction, visibleFeatures, adjacency);
+      if (target) pathRefs.current.get(target.properties.adcode)?.focus();
+      return;
+    }
+
+    if (e.key === 'Enter' && e.shiftKey && onRegionCompare) {
+      e.preventDefault();
+      // 市级视图中以城市中心所在的区县加入对比
+      handleRegionCompare(feature, getRegionCenter(feature));
+      return;
+    }
+
+    if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      if (canDrillInto(feature)) {
+        // 下钻后聚焦该城市的第一个区县
+        const [first] = sortFeaturesGeographically(hierarchy?.districts[feature.properties.adcode] ?? []);
+        pendingFocusRef.current = first?.properties.adcode ?? null;
+      }
+      handleFeatureActivate(feature, getRegionCenter(feature));
+      return;
+    }
+
+    if (e.key === 'Escape' && drillCity !== null) {
+      e.preventDefault();
+      pendingFocusRef.current = drillCity;
+      handleDrill(null);
+    }
+  }, [
+    visibleFeatures,
+    adjacency,
+    canDrillInto,
+    hierarchy,
+    handleFeatureActivate,
+    handleRegionCompare,
+    onRegionCompare,
+    drillCity,
+    handleDrill
+  ]);
+
+  // 层级切换完成后移动焦点
+  useEffect(() => {
+    if (pendingFocusRef.current === null) return;
+    pathRefs.current.get(pendingFocusRef.current)?.focus();
+    pendingFocusRef.current = null;
+  }, [visibleFeatures]);
+
+  // 面包屑导航
+  const breadcrumbItems = useMemo<BreadcrumbItem[]>(() => {
+    const city = drillCity !== null
+      ? hierarchy?.cities.find(feature => feature.properties.adcode === drillCity)
+      : undefined;
+
+    return city
+      ? [{ label: t('map.root'), onClick: () => handleDrill(null) }, { label: city.properties.name }]
+      : [{ label: t('map.root') }];
+  }, [drillCity, hierarchy, handleDrill, t]);
 
   // 获取区域样式
   const getRegionStyle = useCallback((feature: GeoFeature) => {
-    const regionName = feature.properties.name;
-    const isSelected = selectedRegion === regionName;
-    const isHovered = hoveredRegion === regionName;
-    const cityType = getCityType(feature.properties.adcode);
+    const adcode = feature.properties.adcode;
+    const isSelected = selectedAdcode === adcode;
+    const isHovered = hoveredAdcode === adcode;
+    const layer = getRegionLayer(adcode);
+    const metricValue = getFeatureValue(feature);
     
-    // 城市颜色映射
-    const cityColors: Record<string, string> = {
-      shanghai: '#e0f2fe',    // 浅蓝色
-      hangzhou: '#f0f9ff',    // 极浅蓝色
-      huzhou: '#ecfdf5',      // 浅绿色
-      jiaxing: '#fef7cd',     // 浅黄色
-      ningbo: '#fdf2f8',      // 浅粉色
-      shaoxing: '#f3e8ff',    // 浅紫色
-      zhoushan: '#ecfccb',    // 浅青色
-      unknown: '#f8fafc'      // 默认灰色
-    };
+    // 天气模式下按指标数值着色，选中和悬停只加粗描边以保留颜色信息
+    if (mapMode === 'weather') {
+      return {
+        fill: metricValue !== undefined && metricDomain
+          ? getMetricColor(metric, metricValue, metricDomain)
+          : '#f3f4f6',
+        stroke: isSelected || isHovered ? '#1d4ed8' : '#ffffff',
+        strokeWidth: isSelected ? 3 : isHovered ? 2 : 0.5,
+        cursor: 'pointer',
+        // 聚焦时沿用悬停样式作为焦点指示
+        outline: 'none',
+        transition: 'all 0.2s ease-in-out'
+      };
+    }
     
     return {
       fill: isSelected 
         ? '#3b82f6' 
         : isHovered 
         ? '#60a5fa' 
-        : cityColors[cityType],
+        : layer?.color ?? UNKNOWN_REGION_COLOR,
       stroke: isSelected || isHovered ? '#1d4ed8' : '#94a3b8',
       strokeWidth: isSelected ? 2 : 1,
       cursor: 'pointer',
+      outline: 'none',
       transition: 'all 0.2s ease-in-out'
     };
-  }, [selectedRegion, hoveredRegion, getCityType]);
-
-  // 缩放控制函数
-  const handleZoomIn = useCallback(() => {
-    setZoomLevel(prev => Math.min(prev * 1.2, 3));
-  }, []);
-
-  const handleZoomOut = useCallback(() => {
-    setZoomLevel(prev => Math.max(prev / 1.2, 0.5));
-  }, []);
-
-  const handleZoomReset = useCallback(() => {
-    setZoomLevel(1);
-    setPanOffset({ x: 0, y: 0 });
-  }, []);
-
-  // 鼠标拖拽处理
-  const handleMouseDown = useCallback((e: React.MouseEvent) => {
-    if (e.button === 0) { // 左键
-      setIsDragging(true);
-      setDragStart({ x: e.clientX - panOffset.x, y: e.clientY - panOffset.y });
-    }
-  }, [panOffset]);
+  }, [selectedAdcode, hoveredAdcode, mapMode, metric, metricDomain, getFeatureValue]);
 
-  const handleMouseMove = useCallback((e: React.MouseEvent) => {
-    if (isDragging) {
-      setPanOffset({
-        x: e.clientX - dragStart.x,
-        y: e.clientY - dragStart.y
-      });
-    }
-  }, [isDragging, dragStart]);
+  // 标记仅在有选中区域时显示
+  const pinPosition = selectedPoint && selectedAdcode !== null && bounds ? projectCoordinate(selectedPoint, bounds) : null;
+  const compareMarkers = bounds
+    ? compareLocations.map((location, index) => ({
+      ...location,
+      color: COMPARE_COLORS[index],
+      position: projectCoordinate(location.coordinates, bounds)
+    }))
+    : [];
 
-  const handleMouseUp = useCallback(() => {
-    setIsDragging(false);
-  }, []);
+  // 悬停区域的指标数值，市级显示区县取值范围
+  const hoveredFeature = hoveredAdcode !== null
+    ? visibleFeatures?.find(feature => feature.properties.adcode === hoveredAdcode)
+    : undefined;
+  const hoveredValue = hoveredFeature ? getFeatureValue(hoveredFeature) : undefined;
+  const hoveredAggregate = hoveredFeature && drillCity === null
+    ? cityAggregates[hoveredFeature.properties.adcode]
+    : undefined;
 
-  // 鼠标滚轮缩放
-  const handleWheel = useCallback((e: React.WheelEvent) => {
+  // 缩放按钮以画布中心为锚点
+  const handleZoomIn = useCallback(() => zoomBy(1.2), [zoomBy]);
+  const handleZoomOut = useCallback(() => zoomBy(1 / 1.2), [zoomBy]);
+
+  // 地图内的缩放快捷键：+ 放大，- 缩小，0 重置
+  const handleMapKeyDown = useCallback((e: React.KeyboardEvent) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+    if (e.target instanceof HTMLInputElement) return;
+
+    if (e.key === '+' || e.key === '=') {
+      handleZoomIn();
+    } else if (e.key === '-' || e.key === '_') {
+      handleZoomOut();
+    } else if (e.key === '0') {
+      resetTransform();
+    } else {
+      return;
+    }
     e.preventDefault();
-    e.stopPropagation();
-    const delta = e.deltaY > 0 ? 0.9 : 1.1;
-    setZoomLevel(prev => Math.max(0.5, Math.min(3, prev * delta)));
-  }, []);
+  }, [handleZoomIn, handleZoomOut, resetTransform]);
+
+  // 区域的无障碍名称，天气模式下附带当前指标数值
+  const getFeatureLabel = useCallback((feature: GeoFeature) => {
+    const parts = [regionIndex?.getLabel(feature.properties.adcode) ?? feature.properties.name];
+    const value = getFeatureValue(feature);
+    if (mapMode === 'weather' && value !== undefined) {
+      parts.push(t('common.labeledValue', { label: format.metricLabel(metric), value: format.metricValue(metric, value) }));
+    }
+    const severity = getFeatureAlertSeverity(feature);
+    if (severity) {
+      parts.push(t('alert.severityAlert', { severity: format.severityLabel(severity) }));
+    }
+    if (canDrillInto(feature)) {
+      parts.push(t('map.drillHint'));
+    }
+    return parts.join(t('common.listSeparator'));
+  }, [regionIndex, getFeatureValue, mapMode, metric, canDrillInto, getFeatureAlertSeverity, t, format]);
 
   if (loading) {
     return (
       <div className={`flex items-center justify-center h-96 ${className}`}>
         <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
-        <span className="ml-2 text-gray-600">加载地图中...</span>
+        <span className="ml-2 text-gray-600">{t('map.loading')}</span>
       </div>
     );
   }
 
-  if (error || !mapData || !bounds) {
+  if (error || !visibleFeatures || !bounds) {
     return (
       <div className={`flex items-center justify-center h-96 ${className}`}>
         <div className="text-center">
           <div className="text-red-500 mb-2">⚠️</div>
-          <p className="text-gray-600">{error || '地图数据不可用'}</p>
+          <p className="text-gray-600">{error ? t(error.key, error.params) : t('map.unavailable')}</p>
         </div>
       </div>
     );
   }
 
   return (
-    <div className={`relative ${className}`}>
-      <svg
-        ref={svgRef}
-        viewBox={`0 0 ${bounds.width} ${bounds.height}`}
-        className="w-full h-auto border border-gray-200 rounded-lg shadow-sm bg-white cursor-grab"
-        style={{ 
-          maxHeight: '600px',
-          minHeight: '300px',
-          height: 'clamp(300px, 50vh, 600px)',
-          cursor: isDragging ? 'grabbing' : 'grab'
-        }}
-        onMouseDown={handleMouseDown}
-        onMouseMove={handleMouseMove}
-        onMouseUp={handleMouseUp}
-        onMouseLeave={handleMouseUp}
-        onWheel={handleWheel}
-      >
-        <g transform={`translate(${panOffset.x}, ${panOffset.y}) scale(${zoomLevel})`}>
-        {/* 地图区域 */}
-        {mapData.features.map((feature, index) => {
-          if (feature.geometry.type !== 'MultiPolygon') return null;
+    <div className={className}>
+      {/* 层级导航 */}
+      <MapBreadcrumb items={breadcrumbItems} className="mb-2" />
+      
+      <div className="relative" onKeyDown={handleMapKeyDown}>
+        <p id={instructionsId} className="sr-only">
+          {t('map.instructions')}
+        </p>
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${bounds.width} ${bounds.height}`}
+          className="w-full h-auto border border-gray-200 rounded-lg shadow-sm bg-white cursor-grab"
+          style={{ 
+            maxHeight: '600px',
+            minHeight: '300px',
+            height: 'clamp(300px, 50vh, 600px)',
+            cursor: gestures.isDragging ? 'grabbing' : 'grab',
+            // 触摸手势全部交给指针事件处理，禁止浏览器自身的滚动和缩放
+            touchAction: 'none'
+          }}
+          {...gestures.handlers}
+          role="group"
+          aria-label={drillCity !== null
+            ? t('map.cityLabel', { name: breadcrumbItems[breadcrumbItems.length - 1].label })
+            : t('map.overviewLabel')}
+          aria-describedby={instructionsId}
+        >
+          <g transform={`translate(${transform.x}, ${transform.y}) scale(${zoomLevel})`}>
+          {/* 地图区域 */}
+          {projectedFeatures.map(({ feature, path, label }, index) => {
+            if (feature.geometry.type !== 'MultiPolygon') return null;
+          
+            const regionName = feature.properties.name;
+            const adcode = feature.properties.adcode;
           
-          const path = coordinatesToSVGPath(feature.geometry.coordinates as unknown as number[][][], bounds);
-          const regionName = feature.properties.name;
+            return (
+              <g key={`${adcode}-${index}`}>
+                <path
+                  ref={element => {
+                    if (element) pathRefs.current.set(adcode, element);
+                    else pathRefs.current.delete(adcode);
+                  }}
+                  d={path}
+                  style={getRegionStyle(feature)}
+                  tabIndex={0}
+                  role="button"
+                  aria-label={getFeatureLabel(feature)}
+                  aria-pressed={selectedAdcode === adcode}
+                  onFocus={() => setHoveredAdcode(adcode)}
+                  onBlur={() => setHoveredAdcode(null)}
+                  onKeyDown={(e) => handleFeatureKeyDown(feature, e)}
+                  onMouseEnter={() => setHoveredAdcode(adcode)}
+                  onMouseLeave={() => setHoveredAdcode(null)}
+                  onClick={(e) => handleFeatureClick(feature, e)}
+                />
+              
+                {/* 区域标签 */}
+                {label && (
+                  <text
+                    x={label.x}
+                    y={label.y}
+                    textAnchor="middle"
+                    dominantBaseline="middle"
+                    className="text-xs font-medium pointer-events-none select-none"
+                    fill={selectedAdcode === adcode && mapMode === 'region' ? '#ffffff' : '#374151'}
+                  >
+                    {regionName}
+                  </text>
+                )}
+              </g>
+            );
+          })}
           
-          return (
-            <g key={`${feature.properties.adcode}-${index}`}>
+          {/* 预警轮廓，描边宽度不随缩放变化 */}
+          {showAlerts && (
+            <g className="pointer-events-none" aria-hidden="true">
+              {projectedFeatures.map(({ feature, path }, index) => {
+                const severity = getFeatureAlertSeverity(feature);
+                if (!severity) return null;
+
+                return (
+                  <path
+                    key={`${feature.properties.adcode}-${index}`}
+                    d={path}
+                    fill="none"
+                    stroke={ALERT_SEVERITY_STYLES[severity].color}
+                    strokeWidth={3}
+                    strokeLinejoin="round"
+                    vectorEffect="non-scaling-stroke"
+                  />
+                );
+              })}
+            </g>
+          )}
+
+          {/* 对比地点标记，序号与对比表一致 */}
+          {compareMarkers.map((marker, index) => (
+            <g
+              key={marker.id}
+              transform={`translate(${marker.position.x}, ${marker.position.y}) scale(${1 / zoomLevel})`}
+              className="pointer-events-none"
+              aria-hidden="true"
+            >
+              <circle r={8} fill={marker.color} stroke="#ffffff" strokeWidth={1.5} />
+              <text textAnchor="middle" dominantBaseline="central" fontSize={10} fontWeight={600} fill="#ffffff">
+                {index + 1}
+              </text>
+            </g>
+          ))}
+
+          {/* 读数位置标记，反向缩放以保持固定大小 */}
+          {pinPosition && (
+            <g
+              transform={`translate(${pinPosition.x}, ${pinPosition.y}) scale(${1 / zoomLevel})`}
+              className="pointer-events-none"
+            >
               <path
-                d={path}
-                style={getRegionStyle(feature)}
-                onMouseEnter={() => setHoveredRegion(regionName)}
-                onMouseLeave={() => setHoveredRegion(null)}
-                onClick={() => {
-                  console.log('Region clicked:', feature.properties.name, feature.properties.center);
-                  handleRegionClick(feature);
-                }}
+                d="M0 0 C -2 -6 -8 -9 -8 -15 A 8 8 0 1 1 8 -15 C 8 -9 2 -6 0 0 Z"
+                fill="#ef4444"
+                stroke="#ffffff"
+                strokeWidth={1.5}
               />
-              
-              {/* 区域标签 */}
-              {feature.properties.center && (
-                <text
-                  x={projectCoordinate(
-                    { lat: feature.properties.center[1], lng: feature.properties.center[0] }, 
-                    bounds
-                  ).x}
-                  y={projectCoordinate(
-                    { lat: feature.properties.center[1], lng: feature.properties.center[0] }, 
-                    bounds
-                  ).y}
-                  textAnchor="middle"
-                  dominantBaseline="middle"
-                  className="text-xs font-medium pointer-events-none select-none"
-                  fill={selectedRegion === regionName ? '#ffffff' : '#374151'}
-                >
-                  {regionName}
-                </text>
-              )}
+              <circle cx={0} cy={-15} r={3} fill="#ffffff" />
             </g>
-          );
-        })}
-        </g>
-      </svg>
+          )}
+          </g>
+        </svg>
       
-      {/* 图例 */}
-      <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm rounded-lg p-3 shadow-lg max-h-48 overflow-y-auto">
-        <div className="text-sm font-medium text-gray-700 mb-2">图例</div>
-        <div className="space-y-1 text-xs">
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-blue-100 border border-gray-300 rounded"></div>
-            <span className="text-gray-600">上海市</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-sky-50 border border-gray-300 rounded"></div>
-            <span className="text-gray-600">杭州市</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-green-50 border border-gray-300 rounded"></div>
-            <span className="text-gray-600">湖州市</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-yellow-50 border border-gray-300 rounded"></div>
-            <span className="text-gray-600">嘉兴市</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-pink-50 border border-gray-300 rounded"></div>
-            <span className="text-gray-600">宁波市</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-purple-50 border border-gray-300 rounded"></div>
-            <span className="text-gray-600">绍兴市</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-cyan-50 border border-gray-300 rounded"></div>
-            <span className="text-gray-600">舟山市</span>
+        {/* 模式切换 */}
+        <MapModeControls
+          mode={mapMode}
+          metric={metric}
+          onModeChange={setMapMode}
+          onMetricChange={setMetric}
+          showAlerts={showAlerts}
+          onShowAlertsChange={setShowAlerts}
+          className="absolute top-4 left-4"
+        />
+      
+        {/* 图例 */}
+        {mapMode === 'weather' ? (
+          <MetricLegend
+            metric={metric}
+            domain={metricDomain}
+            loading={regionWeather.loading}
+            className="absolute bottom-4 left-4"
+          />
+        ) : (
+          <RegionLegend className="absolute bottom-4 left-4" />
+        )}
+      
+        {/* 缩放控制 */}
+        <ZoomControls
+          onZoomIn={handleZoomIn}
+          onZoomOut={handleZoomOut}
+          onReset={resetTransform}
+          zoomLevel={zoomLevel}
+          minZoom={MIN_ZOOM}
+          maxZoom={MAX_ZOOM}
+          className="absolute top-4 right-4"
+        />
+      
+        {/* 悬停提示 */}
+        {hoveredFeature && (
+          <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-black/75 text-white px-3 py-2 rounded-lg text-sm">
+            {regionIndex?.getLabel(hoveredFeature.properties.adcode) ?? hoveredFeature.properties.name}
+            {mapMode === 'weather' && hoveredAggregate && hoveredAggregate.count > 1 ? (
+              <span className="ml-2 font-semibold">
+                {format.metricValue(metric, hoveredAggregate.min)} ~ {format.metricValue(metric, hoveredAggregate.max)}
+              </span>
+            ) : mapMode === 'weather' && hoveredValue !== undefined && (
+              <span className="ml-2 font-semibold">{format.metricValue(metric, hoveredValue)}</span>
+            )}
           </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 bg-blue-500 border border-blue-700 rounded"></div>
-            <span className="text-gray-600">已选择</span>
+        )}
+      
+        {/* 天气数据加载失败提示 */}
+        {mapMode === 'weather' && regionWeather.error && (
+          <div className="absolute bottom-4 right-4 bg-red-50 border border-red-200 text-red-600 px-3 py-2 rounded-lg text-xs shadow-lg">
+            {t(regionWeather.error.key, regionWeather.error.params)}
           </div>
-        </div>
+        )}
       </div>
       
-      {/* 缩放控制 */}
-      <ZoomControls
-        onZoomIn={handleZoomIn}
-        onZoomOut={handleZoomOut}
-        onReset={handleZoomReset}
-        zoomLevel={zoomLevel}
-        className="absolute top-4 right-4"
-      />
-      
-      {/* 悬停提示 */}
-      {hoveredRegion && (
-        <div className="absolute top-4 left-1/2 transform -translate-x-1/2 bg-black/75 text-white px-3 py-2 rounded-lg text-sm">
-          {hoveredRegion}
-        </div>
+      {/* 预报时间轴 */}
+      {mapMode === 'weather' && forecastTimeline.times.length > 0 && (
+        <TimeSlider
+          times={forecastTimeline.times}
+          timeZone={forecastTimeline.timeZone}
+          startIndex={forecastTimeline.start}
+          value={timeIndex}
+          onChange={setTimeIndex}
+          className="mt-3"
+        />
       )}
     </div>
   );
@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Play, Pause, SkipBack, SkipForward, Clock } from 'lucide-react';
+import { useSettings } from '@/hooks/useSettings';
+
+interface TimeSliderProps {
+  /** 逐小时预报时间序列 */
+  times: string[];
+  /** 预报时间所在的时区 */
+  timeZone: string;
+  /** 选中的时次下标，为空表示显示当前实况 */
+  value: number | null;
+  onChange: (index: number | null) => void;
+  /** 时间轴起点（通常为当前小时） */
+  startIndex?: number;
+  /** 播放时每帧间隔（毫秒） */
+  interval?: number;
+  className?: string;
+}
+
+const TimeSlider: React.FC<TimeSliderProps> = ({
+  times,
+  timeZone,
+  value,
+  onChange,
+  startIndex = 0,
+  interval = 500,
+  className = ''
+}) => {
+  const { t, format } = useSettings();
+  const [playing, setPlaying] = useState(false);
+  const lastIndex = times.length - 1;
+  const current = value ?? startIndex;
+
+  // 播放：逐小时前进，到末尾自动停止
+  useEffect(() => {
+    if (!playing) return;
+
+    const timer = setInterval(() => {
+      if (current >= lastIndex) {
+        setPlaying(false);
+        return;
+      }
+      onChange(current + 1);
+    }, interval);
+
+    return () => clearInterval(timer);
+  }, [playing, current, lastIndex, interval, onChange]);
+
+  const handleTogglePlay = () => {
+    if (!playing && current >= lastIndex) {
+      onChange(startIndex);
+    }
+    setPlaying(prev => !prev);
+  };
+
+  const handleStep = (delta: number) => {
+    setPlaying(false);
+    onChange(Math.min(lastIndex, Math.max(startIndex, current + delta)));
+  };
+
+  const handleNow = () => {
+    setPlaying(false);
+    onChange(null);
+  };
+
+  if (times.length === 0) {
+    return null;
+  }
+
+  // 显示时区中每天零点的位置作为刻度
+  const dayTicks = times
+    .map((time, index) => ({ time, index }))
+    .filter(({ time, index }) => index >= startIndex && format.hourOf(time, timeZone) === 0);
+  const span = Math.max(1, lastIndex - startIndex);
+
+  return (
+    <div className={`bg-white rounded-lg border border-gray-200 p-2 sm:p-3 ${className}`}>
+      <div className="flex items-center gap-1 sm:gap-2">
+        <Button variant="outline" size="sm" className="w-8 h-8 p-0" onClick={() => handleStep(-1)} title={t('timeline.previous')}>
+          <SkipBack className="h-4 w-4" />
+        </Button>
+        <Button variant="default" size="sm" className="w-8 h-8 p-0" onClick={handleTogglePlay} title={t(playing ? 'timeline.pause' : 'timeline.play')}>
+          {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+        </Button>
+        <Button variant="outline" size="sm" className="w-8 h-8 p-0" onClick={() => handleStep(1)} title={t('timeline.next')}>
+          <SkipForward className="h-4 w-4" />
+        </Button>
+
+        <div className="flex-1 mx-1 sm:mx-2">
+          <input
+            type="range"
+            min={startIndex}
+            max={lastIndex}
+            value={current}
+            onChange={e => {
+              setPlaying(false);
+              onChange(Number(e.target.value));
+            }}
+            className="w-full accent-blue-600"
+            aria-label={t('timeline.label')}
+          />
+          <div className="relative h-4 text-[10px] text-gray-500">
+            {dayTicks.map(({ time, index }) => (
+              <span
+                key={time}
+                className="absolute -translate-x-1/2"
+                style={{ left: `${((index - startIndex) / span) * 100}%` }}
+              >
+                {format.weekday(time, timeZone)}
+              </span>
+            ))}
+          </div>
+        </div>
+
+        <div className="text-xs sm:text-sm font-medium text-gray-700 w-24 text-right tabular-nums">
+          {value === null ? t('timeline.current') : format.dateTime(times[value], timeZone)}
+        </div>
+        <Button
+          variant={value === null ? 'secondary' : 'ghost'}
+          size="sm"
+          className="h-8 px-2 text-xs"
+          onClick={handleNow}
+          title={t('timeline.backToCurrent')}
+        >
+          <Clock className="h-4 w-4" />
+          {t('timeline.now')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TimeSlider;
@@ -3,6 +3,7 @@
 import React from 'react';
 import { Button } from '@/components/ui/button';
 import { Plus, Minus, RotateCcw } from 'lucide-react';
+import { useSettings } from '@/hooks/useSettings';
 
 interface ZoomControlsProps {
   onZoomIn: () => void;
@@ -23,6 +24,7 @@ const ZoomControls: React.FC<ZoomControlsProps> = ({
   maxZoom = 3,
   className = ''
 }) => {
+  const { t } = useSettings();
   const canZoomIn = zoomLevel < maxZoom;
   const canZoomOut = zoomLevel > minZoom;
   const isDefaultZoom = Math.abs(zoomLevel - 1) < 0.01;
@@ -36,7 +38,9 @@ const ZoomControls: React.FC<ZoomControlsProps> = ({
         onClick={onZoomIn}
         disabled={!canZoomIn}
         className="w-10 h-10 p-0 bg-white/90 backdrop-blur-sm hover:bg-white shadow-lg border-gray-200"
-        title="放大地图"
+        title={t('common.withShortcut', { label: t('map.zoomIn'), key: '+' })}
+        aria-label={t('map.zoomIn')}
+        aria-keyshortcuts="+"
       >
         <Plus className="h-4 w-4" />
       </Button>
@@ -48,7 +52,9 @@ const ZoomControls: React.FC<ZoomControlsProps> = ({
         onClick={onZoomOut}
         disabled={!canZoomOut}
         className="w-10 h-10 p-0 bg-white/90 backdrop-blur-sm hover:bg-white shadow-lg border-gray-200"
-        title="缩小地图"
+        title={t('common.withShortcut', { label: t('map.zoomOut'), key: '-' })}
+        aria-label={t('map.zoomOut')}
+        aria-keyshortcuts="-"
       >
         <Minus className="h-4 w-4" />
       </Button>
@@ -60,7 +66,9 @@ const ZoomControls: React.FC<ZoomControlsProps> = ({
         onClick={onReset}
         disabled={isDefaultZoom}
         className="w-10 h-10 p-0 bg-white/90 backdrop-blur-sm hover:bg-white shadow-lg border-gray-200"
-        title="重置缩放"
+        title={t('common.withShortcut', { label: t('map.resetZoom'), key: '0' })}
+        aria-label={t('map.resetZoom')}
+        aria-keyshortcuts="0"
       >
         <RotateCcw className="h-4 w-4" />
       </Button>
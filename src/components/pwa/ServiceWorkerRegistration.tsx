@@ -0,0 +1,36 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { getRegionDataFiles } from '@/lib/regions';
+
+// 开发模式下不注册，避免缓存干扰热更新
+const ENABLED = process.env.NODE_ENV === 'production';
+
+// 需要预缓存的地图数据通过查询参数传给 Service Worker，列表变化时地址随之变化并触发更新
+const SCRIPT_URL = `/sw.js?data=${encodeURIComponent(getRegionDataFiles().join(','))}`;
+
+/**
+ * 注册离线缓存用的 Service Worker（public/sw.js）
+ */
+const ServiceWorkerRegistration: React.FC = () => {
+  useEffect(() => {
+    if (!ENABLED || !('serviceWorker' in navigator)) return;
+
+    navigator.serviceWorker
+      .register(SCRIPT_URL)
+      .then(() => navigator.serviceWorker.ready)
+      .then(registration => {
+        // 首次安装前已加载的脚本和样式不经过 Service Worker，通知其补充缓存
+        const urls = performance
+          .getEntriesByType('resource')
+          .map(entry => entry.name)
+          .filter(url => url.startsWith(`${location.origin}/_next/static/`));
+        registration.active?.postMessage({ type: 'CACHE_URLS', urls });
+      })
+      .catch(error => console.error('Failed to register service worker:', error));
+  }, []);
+
+  return null;
+};
+
+export default ServiceWorkerRegistration;
@@ -3,36 +3,50 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
-import { Search, MapPin, Loader2 } from 'lucide-react';
-import { WeatherData } from '@/types';
-
-interface SearchResult {
-  name: string;
-  latitude: number;
-  longitude: number;
-  country: string;
-  admin1?: string;
-  admin2?: string;
-}
+import { Search, MapPin, Loader2, Plus, Star } from 'lucide-react';
+import { WeatherData, SearchResult } from '@/types';
+import { WeatherAPI } from '@/lib/api/weather';
+import { isAbortError } from '@/lib/api/errors';
+import { Message, describeError } from '@/lib/i18n';
+import { useLatestRequest } from '@/hooks/useLatestRequest';
+import { useSettings } from '@/hooks/useSettings';
 
 interface SearchBoxProps {
   onLocationSelect: (location: SearchResult, weatherData: WeatherData) => void;
+  /** 将搜索结果加入对比，未提供时不显示对比按钮 */
+  onLocationCompare?: (location: SearchResult) => void;
+  /** 切换搜索结果的收藏状态，未提供时不显示星标 */
+  onLocationFavorite?: (location: SearchResult) => void;
+  isLocationFavorite?: (location: SearchResult) => boolean;
   className?: string;
 }
 
-const SearchBox: React.FC<SearchBoxProps> = ({ onLocationSelect, className = '' }) => {
+const SearchBox: React.FC<SearchBoxProps> = ({
+  onLocationSelect,
+  onLocationCompare,
+  onLocationFavorite,
+  isLocationFavorite,
+  className = ''
+}) => {
+  const { t } = useSettings();
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<SearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [isLoadingWeather, setIsLoadingWeather] = useState(false);
   const [showResults, setShowResults] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<Message | null>(null);
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const resultsRef = useRef<HTMLDivElement>(null);
 
+  // 搜索和选择地点各自只保留最新一次请求，结果总是对应当前输入和选择
+  const { run: runSearch, cancel: cancelSearch } = useLatestRequest();
+  const { run: runWeather } = useLatestRequest();
+
   // 地理编码搜索
   const searchLocations = useCallback(async (searchQuery: string) => {
     if (!searchQuery.trim()) {
+      cancelSearch();
+      setIsSearching(false);
       setResults([]);
       setShowResults(false);
       return;
@@ -42,85 +56,44 @@ const SearchBox: React.FC<SearchBoxProps> = ({ onLocationSelect, className = ''
     setError(null);
 
     try {
-      // 使用Open-Meteo的地理编码API
-      const response = await fetch(
-        `https://geocoding-api.open-meteo.com/v1/search?name=${encodeURIComponent(searchQuery)}&count=10&language=zh&format=json`
-      );
-      
-      if (!response.ok) {
-        throw new Error('搜索失败');
-      }
-
-      const data = await response.json();
-      const locations: SearchResult[] = data.results || [];
-      
-      // 过滤中国的结果，优先显示上海和浙江的结果
-      const filteredResults = locations
-        .filter(location => location.country === 'China')
-        .sort((a, b) => {
-          const aIsTarget = (a.admin1 === 'Shanghai' || a.admin1 === 'Zhejiang');
-          const bIsTarget = (b.admin1 === 'Shanghai' || b.admin1 === 'Zhejiang');
-          if (aIsTarget && !bIsTarget) return -1;
-          if (!aIsTarget && bIsTarget) return 1;
-          return 0;
-        })
-        .slice(0, 8);
-
-      setResults(filteredResults);
-      setShowResults(filteredResults.length > 0);
+      // 经由 /api/geocode 搜索，服务端已过滤并排序
+      const locations = await runSearch(signal => WeatherAPI.searchLocations(searchQuery, { signal }));
+      setResults(locations);
+      setShowResults(locations.length > 0);
+      setIsSearching(false);
     } catch (err) {
-      setError('搜索失败，请重试');
+      if (isAbortError(err)) return;
+      setError(describeError(err, 'error.searchFailed'));
       setResults([]);
       setShowResults(false);
-    } finally {
       setIsSearching(false);
     }
-  }, []);
-
-  // 获取天气数据
-  const fetchWeatherData = useCallback(async (location: SearchResult): Promise<WeatherData> => {
-    const response = await fetch(
-      `https://api.open-meteo.com/v1/forecast?latitude=${location.latitude}&longitude=${location.longitude}&current=temperature_2m,relative_humidity_2m,apparent_temperature,is_day,precipitation,rain,showers,snowfall,weather_code,cloud_cover,pressure_msl,surface_pressure,wind_speed_10m,wind_direction_10m,wind_gusts_10m&timezone=Asia%2FShanghai&forecast_days=1`
-    );
-
-    if (!response.ok) {
-      throw new Error('获取天气数据失败');
-    }
-
-    const data = await response.json();
-    const current = data.current;
-
-    return {
-      temperature: Math.round(current.temperature_2m),
-      humidity: current.relative_humidity_2m,
-      windSpeed: current.wind_speed_10m,
-      weatherCode: current.weather_code,
-      pressure: current.pressure_msl,
-      cloudCover: current.cloud_cover,
-      precipitation: current.precipitation,
-      windDirection: current.wind_direction_10m,
-      apparentTemperature: Math.round(current.apparent_temperature),
-      isDay: current.is_day === 1,
-      current: data.current,
-      daily: data.daily
-    };
-  }, []);
+  }, [runSearch, cancelSearch]);
 
   // 处理位置选择
   const handleLocationSelect = useCallback(async (location: SearchResult) => {
+    // 选择后不再显示尚未返回的搜索结果
+    if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current);
+    cancelSearch();
+    setIsSearching(false);
     setIsLoadingWeather(true);
     setShowResults(false);
+    setError(null);
     setQuery(`${location.name}${location.admin2 ? `, ${location.admin2}` : ''}${location.admin1 ? `, ${location.admin1}` : ''}`);
 
     try {
-      const weatherData = await fetchWeatherData(location);
+      const weatherData = await runWeather(signal => WeatherAPI.getWeatherData({
+        lat: location.latitude,
+        lng: location.longitude
+      }, { signal }));
       onLocationSelect(location, weatherData);
+      setIsLoadingWeather(false);
     } catch (err) {
-      setError('获取天气数据失败');
-    } finally {
+      if (isAbortError(err)) return;
+      setError(describeError(err, 'error.weatherFailed'));
       setIsLoadingWeather(false);
     }
-  }, [fetchWeatherData, onLocationSelect]);
+  }, [runWeather, cancelSearch, onLocationSelect]);
 
   // 防抖搜索
   const handleInputChange = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
@@ -171,7 +144,7 @@ const SearchBox: React.FC<SearchBoxProps> = ({ onLocationSelect, className = ''
       <div className="relative">
         <Input
           type="text"
-          placeholder="搜索区县或乡镇名称..."
+          placeholder={t('search.placeholder')}
           value={query}
           onChange={handleInputChange}
           onKeyDown={handleKeyDown}
@@ -201,24 +174,50 @@ const SearchBox: React.FC<SearchBoxProps> = ({ onLocationSelect, className = ''
       {showResults && results.length > 0 && (
         <div className="absolute top-full left-0 right-0 mt-1 bg-white/95 backdrop-blur-sm border border-gray-200 rounded-lg shadow-lg z-50 max-h-64 overflow-y-auto">
           {results.map((result, index) => (
-            <button
+            <div
               key={index}
-              onClick={() => handleLocationSelect(result)}
-              className="w-full px-4 py-3 text-left hover:bg-gray-50 border-b border-gray-100 last:border-b-0 transition-colors"
-              disabled={isLoadingWeather}
+              className="flex items-center border-b border-gray-100 last:border-b-0"
             >
-              <div className="flex items-center gap-2">
-                <MapPin className="h-4 w-4 text-gray-400 flex-shrink-0" />
-                <div className="flex-1 min-w-0">
-                  <div className="font-medium text-gray-900 truncate">
-                    {result.name}
-                  </div>
-                  <div className="text-sm text-gray-500 truncate">
-                    {[result.admin2, result.admin1, result.country].filter(Boolean).join(', ')}
+              <button
+                onClick={() => handleLocationSelect(result)}
+                className="flex-1 min-w-0 px-4 py-3 text-left hover:bg-gray-50 transition-colors"
+                disabled={isLoadingWeather}
+              >
+                <div className="flex items-center gap-2">
+                  <MapPin className="h-4 w-4 text-gray-400 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="font-medium text-gray-900 truncate">
+                      {result.name}
+                    </div>
+                    <div className="text-sm text-gray-500 truncate">
+                      {[result.admin2, result.admin1, result.country].filter(Boolean).join(', ')}
+                    </div>
                   </div>
                 </div>
-              </div>
-            </button>
+              </button>
+              {onLocationFavorite && (
+                <button
+                  type="button"
+                  onClick={() => onLocationFavorite(result)}
+                  className="p-1 mr-1 rounded-md text-gray-400 hover:text-amber-500 hover:bg-amber-50 flex-shrink-0"
+                  aria-pressed={isLocationFavorite?.(result) ?? false}
+                  aria-label={t(isLocationFavorite?.(result) ? 'favorites.removeNamed' : 'favorites.addNamed', { name: result.name })}
+                >
+                  <Star className={`h-4 w-4 ${isLocationFavorite?.(result) ? 'fill-amber-400 text-amber-500' : ''}`} />
+                </button>
+              )}
+              {onLocationCompare && (
+                <button
+                  type="button"
+                  onClick={() => onLocationCompare(result)}
+                  className="flex items-center gap-1 mr-2 px-2 py-1 text-xs text-blue-600 rounded-md hover:bg-blue-50 flex-shrink-0"
+                  aria-label={t('compare.addNamed', { name: result.name })}
+                >
+                  <Plus className="h-3 w-3" />
+                  {t('compare.add')}
+                </button>
+              )}
+            </div>
           ))}
         </div>
       )}
@@ -226,7 +225,7 @@ const SearchBox: React.FC<SearchBoxProps> = ({ onLocationSelect, className = ''
       {/* 错误提示 */}
       {error && (
         <div className="absolute top-full left-0 right-0 mt-1 bg-red-50 border border-red-200 rounded-lg p-3 text-sm text-red-600">
-          {error}
+          {t(error.key, error.params)}
         </div>
       )}
     </div>
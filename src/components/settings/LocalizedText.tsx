@@ -0,0 +1,19 @@
+'use client';
+
+import React from 'react';
+import { useSettings } from '@/hooks/useSettings';
+import { Message } from '@/lib/i18n';
+
+interface LocalizedTextProps {
+  message: Message;
+}
+
+/**
+ * 按当前语言显示文案，供服务端组件使用
+ */
+const LocalizedText: React.FC<LocalizedTextProps> = ({ message }) => {
+  const { t } = useSettings();
+  return <>{t(message.key, message.params)}</>;
+};
+
+export default LocalizedText;
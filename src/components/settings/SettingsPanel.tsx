@@ -0,0 +1,201 @@
+'use client';
+
+import React, { useEffect, useId, useState } from 'react';
+import { X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { useSettings } from '@/hooks/useSettings';
+import { LOCALES, LOCALE_NAMES } from '@/lib/i18n';
+import { LOCAL_TIME_ZONE, TIME_ZONES, Settings, resolveTimeZone } from '@/lib/settings';
+import { PRECIPITATION_UNITS, TEMPERATURE_UNITS, WIND_SPEED_UNITS } from '@/lib/units';
+import {
+  ALERT_HORIZONS,
+  ALERT_SEVERITIES,
+  SeverityThresholds,
+  THRESHOLD_ALERT_TYPES
+} from '@/lib/alerts';
+
+interface SettingsPanelProps {
+  onClose?: () => void;
+  className?: string;
+}
+
+interface SettingsFieldProps {
+  label: string;
+  value: string;
+  options: { value: string; label: string }[];
+  onChange: (value: string) => void;
+}
+
+const SettingsField: React.FC<SettingsFieldProps> = ({ label, value, options, onChange }) => {
+  const id = useId();
+
+  return (
+    <div className="flex items-center justify-between gap-3">
+      <label htmlFor={id} className="text-sm text-gray-600 whitespace-nowrap">{label}</label>
+      <select
+        id={id}
+        value={value}
+        onChange={e => onChange(e.target.value)}
+        className="w-44 rounded-md border border-gray-200 bg-white px-2 py-1 text-sm"
+      >
+        {options.map(option => (
+          <option key={option.value} value={option.value}>{option.label}</option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+interface ThresholdInputProps {
+  value: number;
+  label: string;
+  onChange: (value: number) => void;
+}
+
+/**
+ * 阈值输入框，输入过程中的中间内容（如单独的负号）不提交
+ */
+const ThresholdInput: React.FC<ThresholdInputProps> = ({ value, label, onChange }) => {
+  const [text, setText] = useState(String(value));
+
+  // 外部修改（如恢复默认）时同步显示
+  useEffect(() => {
+    setText(prev => (Number(prev) === value ? prev : String(value)));
+  }, [value]);
+
+  return (
+    <input
+      type="number"
+      value={text}
+      aria-label={label}
+      onChange={e => {
+        setText(e.target.value);
+        const next = Number(e.target.value);
+        if (e.target.value.trim() !== '' && Number.isFinite(next)) onChange(next);
+      }}
+      className="w-full min-w-0 rounded-md border border-gray-200 bg-white px-1.5 py-1 text-sm tabular-nums"
+    />
+  );
+};
+
+/**
+ * 语言、单位、时区和预警阈值设置
+ */
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ onClose, className = '' }) => {
+  const { settings, updateSettings, resetSettings, t, format } = useSettings();
+
+  // 已保存的时区不在预设列表中时仍显示为可选项
+  const timeZones = TIME_ZONES.includes(settings.timeZone) ? TIME_ZONES : [...TIME_ZONES, settings.timeZone];
+
+  const update = <K extends keyof Settings>(key: K) => (value: string) => {
+    updateSettings({ [key]: value } as Pick<Settings, K>);
+  };
+
+  const { alertThresholds } = settings;
+  const updateThreshold = (type: (typeof THRESHOLD_ALERT_TYPES)[number], level: number) => (value: number) => {
+    const thresholds = [...alertThresholds[type]] as SeverityThresholds;
+    thresholds[level] = value;
+    updateSettings({ alertThresholds: { ...alertThresholds, [type]: thresholds } });
+  };
+
+  return (
+    <Card className={`w-full gap-3 py-4 ${className}`}>
+      <CardHeader className="px-4">
+        <CardTitle className="flex items-center justify-between text-base font-semibold">
+          {t('settings.title')}
+          {onClose && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={onClose}
+              aria-label={t('settings.close')}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent className="px-4 space-y-2">
+        <SettingsField
+          label={t('settings.language')}
+          value={settings.locale}
+          options={LOCALES.map(locale => ({ value: locale, label: LOCALE_NAMES[locale] }))}
+          onChange={update('locale')}
+        />
+        <SettingsField
+          label={t('settings.temperatureUnit')}
+          value={settings.temperatureUnit}
+          options={TEMPERATURE_UNITS.map(unit => ({ value: unit, label: t(`units.${unit}`) }))}
+          onChange={update('temperatureUnit')}
+        />
+        <SettingsField
+          label={t('settings.windSpeedUnit')}
+          value={settings.windSpeedUnit}
+          options={WIND_SPEED_UNITS.map(unit => ({ value: unit, label: t(`units.${unit}`) }))}
+          onChange={update('windSpeedUnit')}
+        />
+        <SettingsField
+          label={t('settings.precipitationUnit')}
+          value={settings.precipitationUnit}
+          options={PRECIPITATION_UNITS.map(unit => ({ value: unit, label: t(`units.${unit}`) }))}
+          onChange={update('precipitationUnit')}
+        />
+        <SettingsField
+          label={t('settings.timeZone')}
+          value={settings.timeZone}
+          options={timeZones.map(zone => ({
+            value: zone,
+            label: zone === LOCAL_TIME_ZONE
+              ? t('settings.localTimeZone', { zone: resolveTimeZone(zone) })
+              : zone
+          }))}
+          onChange={update('timeZone')}
+        />
+        <p className="text-xs text-gray-500">{t('settings.timeZoneHint')}</p>
+
+        <fieldset className="space-y-2 border-t border-gray-100 pt-3">
+          <legend className="text-sm font-medium text-gray-700">{t('settings.alertThresholds')}</legend>
+          <SettingsField
+            label={t('settings.alertHorizon')}
+            value={String(alertThresholds.horizonHours)}
+            options={ALERT_HORIZONS.map(hours => ({
+              value: String(hours),
+              label: t('settings.alertHorizonValue', { hours })
+            }))}
+            onChange={value => updateSettings({ alertThresholds: { ...alertThresholds, horizonHours: Number(value) } })}
+          />
+          <p className="text-xs text-gray-500">{t('settings.alertThresholdsHint')}</p>
+          {THRESHOLD_ALERT_TYPES.map(type => (
+            <div key={type} className="space-y-1">
+              <div className="text-sm text-gray-600">{t(`settings.alertRule.${type}`)}</div>
+              <div className="grid grid-cols-4 gap-1.5">
+                {ALERT_SEVERITIES.map((severity, level) => (
+                  <ThresholdInput
+                    key={severity}
+                    value={alertThresholds[type][level]}
+                    label={t('settings.alertThreshold', {
+                      rule: t(`settings.alertRule.${type}`),
+                      severity: format.severityLabel(severity)
+                    })}
+                    onChange={updateThreshold(type, level)}
+                  />
+                ))}
+              </div>
+            </div>
+          ))}
+        </fieldset>
+
+        <div className="flex justify-end pt-1">
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={resetSettings}>
+            {t('settings.reset')}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,78 @@
+'use client';
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { SettingsContext, SettingsState } from '@/hooks/useSettings';
+import {
+  DEFAULT_SETTINGS,
+  SETTINGS_STORAGE_KEY,
+  Settings,
+  loadSettings,
+  saveSettings
+} from '@/lib/settings';
+import { createTranslator } from '@/lib/i18n';
+import { createFormatters } from '@/lib/i18n/format';
+
+interface SettingsProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * 提供用户设置，保存在 localStorage 中并在多个标签页间同步
+ */
+const SettingsProvider: React.FC<SettingsProviderProps> = ({ children }) => {
+  // 服务端渲染时使用默认设置，挂载后再读取
+  const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+  const [loaded, setLoaded] = useState(false);
+  // 与存储中一致的设置，从存储读取的变化不再写回
+  const storedRef = useRef<Settings | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      const stored = loadSettings();
+      storedRef.current = stored;
+      setSettings(stored);
+    };
+    load();
+    setLoaded(true);
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === SETTINGS_STORAGE_KEY) load();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // 修改后写入存储；读取存储前的默认设置不写入
+  useEffect(() => {
+    if (!loaded || settings === storedRef.current) return;
+    storedRef.current = settings;
+    try {
+      saveSettings(settings);
+    } catch (error) {
+      console.error('Failed to save settings:', error);
+    }
+  }, [settings, loaded]);
+
+  useEffect(() => {
+    document.documentElement.lang = settings.locale;
+  }, [settings.locale]);
+
+  const updateSettings = useCallback(
+    (patch: Partial<Settings>) => setSettings(prev => ({ ...prev, ...patch })),
+    []
+  );
+
+  const resetSettings = useCallback(
+    () => setSettings(prev => ({ ...DEFAULT_SETTINGS, locale: prev.locale })),
+    []
+  );
+
+  const value = useMemo<SettingsState>(() => {
+    const t = createTranslator(settings.locale);
+    return { settings, updateSettings, resetSettings, t, format: createFormatters(settings, t) };
+  }, [settings, updateSettings, resetSettings]);
+
+  return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+};
+
+export default SettingsProvider;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { TriangleAlert } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { ALERT_SEVERITY_STYLES, AlertSeverity } from '@/lib/alerts';
+
+interface AlertBadgeProps {
+  severity: AlertSeverity;
+  label: string;
+  className?: string;
+}
+
+/**
+ * 按预警级别着色的徽标
+ */
+const AlertBadge: React.FC<AlertBadgeProps> = ({ severity, label, className = '' }) => {
+  const style = ALERT_SEVERITY_STYLES[severity];
+
+  return (
+    <Badge
+      variant="outline"
+      className={`text-xs ${className}`}
+      style={{ color: style.color, backgroundColor: style.background, borderColor: style.color }}
+    >
+      <TriangleAlert />
+      {label}
+    </Badge>
+  );
+};
+
+export default AlertBadge;
@@ -0,0 +1,107 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  ALERT_SEVERITIES,
+  ALERT_SEVERITY_STYLES,
+  AlertSeverity,
+  RegionAlerts,
+  compareSeverity
+} from '@/lib/alerts';
+import { useSettings } from '@/hooks/useSettings';
+import AlertBadge from './AlertBadge';
+
+interface AlertPanelProps {
+  /** 有预警的区县 */
+  regions: RegionAlerts[];
+  selectedAdcode?: number | null;
+  onRegionSelect?: (region: RegionAlerts) => void;
+  className?: string;
+}
+
+/**
+ * 预警列表，按最高级别由高到低列出各区县
+ */
+const AlertPanel: React.FC<AlertPanelProps> = ({
+  regions,
+  selectedAdcode = null,
+  onRegionSelect,
+  className = ''
+}) => {
+  const { settings, t, format } = useSettings();
+
+  const sortedRegions = useMemo(
+    () => [...regions].sort((a, b) =>
+      compareSeverity(b.severity, a.severity) || a.name.localeCompare(b.name, 'zh-CN')
+    ),
+    [regions]
+  );
+
+  // 各级别的区县数量
+  const counts = useMemo(() => {
+    const result: Partial<Record<AlertSeverity, number>> = {};
+    regions.forEach(region => {
+      result[region.severity] = (result[region.severity] ?? 0) + 1;
+    });
+    return result;
+  }, [regions]);
+
+  return (
+    <Card className={`w-full ${className}`}>
+      <CardHeader className="pb-2 sm:pb-3">
+        <CardTitle className="flex items-center justify-between text-base sm:text-lg font-semibold">
+          {t('alert.panelTitle')}
+          <span className="flex gap-1">
+            {[...ALERT_SEVERITIES].reverse().map(severity => counts[severity] ? (
+              <AlertBadge
+                key={severity}
+                severity={severity}
+                label={`${counts[severity]}`}
+              />
+            ) : null)}
+          </span>
+        </CardTitle>
+      </CardHeader>
+
+      <CardContent>
+        {sortedRegions.length === 0 ? (
+          <p className="text-sm text-gray-500 text-center py-2">
+            {t('alert.none', { hours: settings.alertThresholds.horizonHours })}
+          </p>
+        ) : (
+          <ul className="space-y-2 max-h-80 overflow-y-auto" aria-label={t('alert.regions')}>
+            {sortedRegions.map(region => (
+              <li key={region.adcode}>
+                <button
+                  type="button"
+                  onClick={() => onRegionSelect?.(region)}
+                  aria-current={region.adcode === selectedAdcode ? 'true' : undefined}
+                  className={`w-full text-left rounded-lg border p-2 transition-colors hover:bg-gray-50 ${
+                    region.adcode === selectedAdcode ? 'bg-blue-50 border-blue-300' : 'border-gray-100'
+                  }`}
+                  style={{ borderLeft: `4px solid ${ALERT_SEVERITY_STYLES[region.severity].color}` }}
+                >
+                  <div className="font-medium text-sm text-gray-800 mb-1">{region.name}</div>
+                  <div className="space-y-1">
+                    {region.alerts.map(alert => (
+                      <div key={alert.type} className="flex flex-wrap items-center gap-x-2 text-xs text-gray-600">
+                        <AlertBadge severity={alert.severity} label={format.alertTitle(alert)} />
+                        <span>{format.alertDescription(alert)}</span>
+                        <span className="text-gray-400">
+                          {t('alert.from', { time: format.dateTime(alert.time, region.timeZone) })}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AlertPanel;
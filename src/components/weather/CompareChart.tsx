@@ -0,0 +1,230 @@
+'use client';
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { WeatherData, WeatherMetric } from '@/types';
+import { buildLinePath, findCurrentHourIndex, getRange } from '@/lib/chart-utils';
+import { useSettings } from '@/hooks/useSettings';
+
+type CompareSeries = 'temperature' | 'precipitation' | 'wind';
+
+/**
+ * 图表中的一个地点
+ */
+export interface CompareChartItem {
+  id: string;
+  name: string;
+  color: string;
+  weather: WeatherData;
+}
+
+interface CompareChartProps {
+  items: CompareChartItem[];
+  hours?: number;
+  className?: string;
+}
+
+const SERIES_OPTIONS: { key: CompareSeries; metric: WeatherMetric }[] = [
+  { key: 'temperature', metric: 'temperature' },
+  { key: 'precipitation', metric: 'precipitation' },
+  { key: 'wind', metric: 'windSpeed' }
+];
+
+// 图表尺寸（viewBox 坐标）
+const WIDTH = 640;
+const HEIGHT = 200;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 32 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+/**
+ * 多个地点的逐小时预报叠加对比
+ *
+ * 时间轴取第一个地点从当前小时开始的时段，其他地点按时间对齐，缺少的时次断开。
+ */
+const CompareChart: React.FC<CompareChartProps> = ({
+  items,
+  hours = 48,
+  className = ''
+}) => {
+  const { t, format } = useSettings();
+  const [series, setSeries] = useState<CompareSeries>('temperature');
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+  const { metric } = SERIES_OPTIONS.find(item => item.key === series)!;
+
+  const times = useMemo(() => {
+    const first = items[0]?.weather;
+    if (!first) return [];
+    const start = findCurrentHourIndex(first.hourly.time, first.current.time);
+    return first.hourly.time.slice(start, start + hours);
+  }, [items, hours]);
+  const timeZone = items[0]?.weather.timezone ?? '';
+
+  // 各地点按时间轴对齐后的取值，plotted 为按设置的单位换算后的绘制值
+  const lines = useMemo(() => items.map(item => {
+    const { hourly } = item.weather;
+    const source = series === 'temperature'
+      ? hourly.temperature
+      : series === 'precipitation'
+      ? hourly.precipitation
+      : hourly.windSpeed;
+    const indexByTime = new Map(hourly.time.map((time, index) => [time, index]));
+
+    const values = times.map(time => {
+      const index = indexByTime.get(time);
+      return index === undefined ? NaN : source[index];
+    });
+
+    return { ...item, values, plotted: values.map(value => format.convertMetric(metric, value)) };
+  }), [items, series, metric, times, format]);
+
+  const count = times.length;
+  const step = count > 1 ? PLOT_WIDTH / (count - 1) : PLOT_WIDTH;
+  const toX = useCallback((index: number) => PADDING.left + index * step, [step]);
+
+  const range = useMemo<[number, number]>(() => {
+    const values = lines.flatMap(line => line.plotted);
+    return series === 'temperature'
+      ? getRange(values, [0, 30])
+      : [0, getRange(values, [0, series === 'precipitation' ? 5 : 20])[1]];
+  }, [lines, series]);
+
+  const toY = useCallback((value: number) => {
+    const [min, max] = range;
+    return PADDING.top + PLOT_HEIGHT - ((value - min) / (max - min)) * PLOT_HEIGHT;
+  }, [range]);
+
+  // 根据鼠标位置计算对应的小时
+  const handleMouseMove = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.round((x - PADDING.left) / step);
+    setHoverIndex(Math.min(count - 1, Math.max(0, index)));
+  }, [step, count]);
+
+  if (count === 0) {
+    return null;
+  }
+
+  const ticks = [range[0], (range[0] + range[1]) / 2, range[1]];
+
+  return (
+    <div className={className}>
+      {/* 指标切换 */}
+      <div className="flex gap-1 mb-2">
+        {SERIES_OPTIONS.map(item => (
+          <Button
+            key={item.key}
+            variant={series === item.key ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => setSeries(item.key)}
+          >
+            {format.metricLabel(item.metric)}
+          </Button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto select-none"
+          role="img"
+          aria-label={t('compare.chartLabel', {
+            hours,
+            metric: format.metricLabel(metric),
+            names: items.map(item => item.name).join(t('common.enumSeparator'))
+          })}
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        >
+          {/* 纵轴刻度 */}
+          {ticks.map(tick => (
+            <g key={tick}>
+              <line
+                x1={PADDING.left}
+                x2={PADDING.left + PLOT_WIDTH}
+                y1={toY(tick)}
+                y2={toY(tick)}
+                stroke="#e5e7eb"
+                strokeDasharray="2 3"
+              />
+              <text x={PADDING.left - 4} y={toY(tick)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="#6b7280">
+                {Math.round(tick)}
+              </text>
+            </g>
+          ))}
+
+          {/* 横轴：每6小时一个刻度，零点显示日期 */}
+          {times.map((time, index) => {
+            const hour = format.hourOf(time, timeZone);
+            if (hour % 6 !== 0) return null;
+            return (
+              <text key={time} x={toX(index)} y={HEIGHT - 8} textAnchor="middle" fontSize={10} fill="#6b7280">
+                {hour === 0 ? format.day(time, timeZone) : format.hour(time, timeZone)}
+              </text>
+            );
+          })}
+
+          {/* 各地点的折线 */}
+          {lines.map(line => (
+            <path
+              key={line.id}
+              d={buildLinePath(line.plotted, toX, toY)}
+              fill="none"
+              stroke={line.color}
+              strokeWidth={2}
+              strokeLinejoin="round"
+            />
+          ))}
+
+          {/* 悬停十字线 */}
+          {hoverIndex !== null && (
+            <line
+              x1={toX(hoverIndex)}
+              x2={toX(hoverIndex)}
+              y1={PADDING.top}
+              y2={PADDING.top + PLOT_HEIGHT}
+              stroke="#374151"
+              strokeWidth={1}
+            />
+          )}
+        </svg>
+
+        {/* 悬停信息 */}
+        {hoverIndex !== null && (
+          <div
+            className="absolute top-0 pointer-events-none bg-black/75 text-white rounded-md px-2 py-1 text-xs whitespace-nowrap"
+            style={{
+              left: `${(toX(hoverIndex) / WIDTH) * 100}%`,
+              transform: hoverIndex > count / 2 ? 'translateX(-105%)' : 'translateX(5%)'
+            }}
+          >
+            <div className="font-medium">
+              {format.day(times[hoverIndex], timeZone)} {format.hour(times[hoverIndex], timeZone)}
+            </div>
+            {lines.map(line => (
+              <div key={line.id} className="flex items-center gap-1">
+                <span className="inline-block w-2 h-2 rounded-full" style={{ backgroundColor: line.color }} />
+                {line.name} {format.metricValue(metric, line.values[hoverIndex])}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* 图例 */}
+      <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500">
+        {items.map(item => (
+          <span key={item.id} className="flex items-center gap-1">
+            <span className="inline-block w-3 h-0.5" style={{ backgroundColor: item.color }} />
+            {item.name}
+          </span>
+        ))}
+        <span>{t('compare.unit', { unit: format.metricUnit(metric) })}</span>
+      </div>
+    </div>
+  );
+};
+
+export default CompareChart;
@@ -0,0 +1,167 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { X } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { CompareLocation, WeatherData, WeatherErrorCode } from '@/types';
+import { MessageKey, Translate } from '@/lib/i18n';
+import { Formatters } from '@/lib/i18n/format';
+import { useSettings } from '@/hooks/useSettings';
+import {
+  COMPARE_COLORS,
+  COMPARE_HOURS,
+  ForecastSummary,
+  MAX_COMPARE_LOCATIONS,
+  summarizeForecast
+} from '@/lib/compare';
+import CompareChart, { CompareChartItem } from './CompareChart';
+
+interface ComparePanelProps {
+  locations: CompareLocation[];
+  /** 按对比地点 id 索引的天气数据 */
+  weather: Record<string, WeatherData>;
+  errors?: Record<string, WeatherErrorCode>;
+  loading?: boolean;
+  /** 提示信息，如对比地点已满 */
+  message?: string | null;
+  onRemove: (id: string) => void;
+  onClear: () => void;
+  className?: string;
+}
+
+// 对比表的行：标题与取值格式
+const ROWS: { label: MessageKey; format: (summary: ForecastSummary, format: Formatters, t: Translate) => string }[] = [
+  { label: 'compare.row.temperature', format: (summary, format) => format.temperature(summary.temperature) },
+  {
+    label: 'compare.row.temperatureRange',
+    format: (summary, format) => `${format.temperature(summary.temperatureMax)} / ${format.temperature(summary.temperatureMin)}`
+  },
+  { label: 'compare.row.precipitation', format: (summary, format) => format.precipitation(summary.precipitationTotal) },
+  {
+    label: 'compare.row.precipitationProbability',
+    format: (summary, format) => format.percent(summary.precipitationProbabilityMax)
+  },
+  { label: 'compare.row.windSpeed', format: (summary, format) => format.windSpeed(summary.windSpeedMax) },
+  { label: 'compare.row.windGusts', format: (summary, format) => format.windSpeed(summary.windGustMax) },
+  {
+    label: 'compare.row.alert',
+    format: (summary, format, t) => summary.alertSeverity
+      ? t('alert.severityAlert', { severity: format.severityLabel(summary.alertSeverity) })
+      : t('compare.none')
+  }
+];
+
+/**
+ * 多地点对比：未来时段的摘要表格和叠加折线图
+ */
+const ComparePanel: React.FC<ComparePanelProps> = ({
+  locations,
+  weather,
+  errors = {},
+  loading = false,
+  message = null,
+  onRemove,
+  onClear,
+  className = ''
+}) => {
+  const { settings, t, format } = useSettings();
+  const { alertThresholds } = settings;
+
+  const summaries = useMemo(() => {
+    const result: Record<string, ForecastSummary> = {};
+    locations.forEach(location => {
+      const data = weather[location.id];
+      if (data) result[location.id] = summarizeForecast(data, COMPARE_HOURS, alertThresholds);
+    });
+    return result;
+  }, [locations, weather, alertThresholds]);
+
+  const chartItems = useMemo(() => locations.flatMap((location, index): CompareChartItem[] => {
+    const data = weather[location.id];
+    return data ? [{ id: location.id, name: location.name, color: COMPARE_COLORS[index], weather: data }] : [];
+  }), [locations, weather]);
+
+  return (
+    <Card className={`w-full ${className}`}>
+      <CardHeader className="pb-2 sm:pb-3">
+        <CardTitle className="flex items-center justify-between text-base sm:text-lg font-semibold">
+          <span>
+            {t('compare.title')}
+            <span className="ml-2 text-xs font-normal text-gray-500">
+              {t('compare.summary', { count: locations.length, max: MAX_COMPARE_LOCATIONS, hours: COMPARE_HOURS })}
+            </span>
+          </span>
+          <Button variant="ghost" size="sm" onClick={onClear}>
+            {t('compare.clear')}
+          </Button>
+        </CardTitle>
+        <p role="status" aria-live="polite" className="text-xs text-gray-500">
+          {message ?? t('compare.hint')}
+        </p>
+      </CardHeader>
+
+      <CardContent className="space-y-4">
+        <div className="overflow-x-auto">
+          <table className="w-full text-xs sm:text-sm">
+            <thead>
+              <tr className="border-b border-gray-100">
+                <th scope="col" className="text-left font-medium text-gray-500 py-2 pr-2">{t('compare.item')}</th>
+                {locations.map((location, index) => (
+                  <th key={location.id} scope="col" className="text-left font-medium py-2 px-2 whitespace-nowrap">
+                    <span className="inline-flex items-center gap-1">
+                      <span
+                        className="inline-block w-2.5 h-2.5 rounded-full"
+                        style={{ backgroundColor: COMPARE_COLORS[index] }}
+                      />
+                      {location.name}
+                      <button
+                        type="button"
+                        onClick={() => onRemove(location.id)}
+                        className="text-gray-400 hover:text-gray-700"
+                        aria-label={t('compare.remove', { name: location.name })}
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </button>
+                    </span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map(row => (
+                <tr key={row.label} className="border-b border-gray-50 last:border-b-0">
+                  <th scope="row" className="text-left font-normal text-gray-500 py-1.5 pr-2 whitespace-nowrap">
+                    {t(row.label)}
+                  </th>
+                  {locations.map(location => {
+                    const summary = summaries[location.id];
+                    return (
+                      <td key={location.id} className="py-1.5 px-2 tabular-nums whitespace-nowrap">
+                        {summary
+                          ? row.format(summary, format, t)
+                          : errors[location.id]
+                          ? (
+                            <span className="text-red-500" title={t(`error.${errors[location.id]}`)}>
+                              {t('compare.failed')}
+                            </span>
+                          )
+                          : loading ? '…' : '--'}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        {chartItems.length > 0 && (
+          <CompareChart items={chartItems} hours={COMPARE_HOURS} />
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ComparePanel;
@@ -0,0 +1,51 @@
+'use client';
+
+import React from 'react';
+import { DailyForecast as DailyForecastData, WEATHER_CODES } from '@/types';
+import { useSettings } from '@/hooks/useSettings';
+
+interface DailyForecastProps {
+  daily: DailyForecastData;
+  className?: string;
+}
+
+/**
+ * 逐日预报列表，日期、单位和文案随用户设置变化
+ *
+ * 预报日期为当地日期字符串（YYYY-MM-DD），第一天即当天，不依赖渲染环境的时区。
+ */
+const DailyForecast: React.FC<DailyForecastProps> = ({ daily, className = '' }) => {
+  const { format } = useSettings();
+
+  return (
+    <ul className={`divide-y divide-gray-100 ${className}`}>
+      {daily.time.map((date, index) => {
+        const code = daily.weatherCode[index];
+        const info = WEATHER_CODES[code];
+
+        return (
+          <li key={date} className="flex items-center justify-between py-2">
+            <div className="flex items-center gap-3">
+              <span className="text-xl" aria-hidden="true">{info?.icon ?? '❓'}</span>
+              <div>
+                <div className="font-medium text-sm">{format.forecastDate(date, index)}</div>
+                <div className="text-xs text-gray-500">{format.weatherDescription(code)}</div>
+              </div>
+            </div>
+
+            <div className="text-right text-sm">
+              <span className="font-semibold">{format.temperature(daily.temperatureMax[index])}</span>
+              <span className="text-gray-400"> / </span>
+              <span className="text-gray-500">{format.temperature(daily.temperatureMin[index])}</span>
+              {daily.precipitationSum[index] > 0 && (
+                <div className="text-xs text-blue-600">{format.precipitation(daily.precipitationSum[index])}</div>
+              )}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
+
+export default DailyForecast;
@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { Button } from '@/components/ui/button';
+import { HourlyForecast, WeatherMetric } from '@/types';
+import { buildLinePath, findCurrentHourIndex, getRange } from '@/lib/chart-utils';
+import { useSettings } from '@/hooks/useSettings';
+
+type ChartSeries = 'temperature' | 'precipitation' | 'wind';
+
+interface HourlyChartProps {
+  hourly: HourlyForecast;
+  /** 当前时间（ISO 本地时间），图表从该小时开始 */
+  currentTime: string;
+  /** 预报时间所在的时区 */
+  timeZone: string;
+  hours?: number;
+  className?: string;
+}
+
+const SERIES_OPTIONS: { key: ChartSeries; metric: WeatherMetric }[] = [
+  { key: 'temperature', metric: 'temperature' },
+  { key: 'precipitation', metric: 'precipitation' },
+  { key: 'wind', metric: 'windSpeed' }
+];
+
+// 图表尺寸（viewBox 坐标）
+const WIDTH = 480;
+const HEIGHT = 180;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 32 };
+const PLOT_WIDTH = WIDTH - PADDING.left - PADDING.right;
+const PLOT_HEIGHT = HEIGHT - PADDING.top - PADDING.bottom;
+
+const HourlyChart: React.FC<HourlyChartProps> = ({
+  hourly,
+  currentTime,
+  timeZone,
+  hours = 48,
+  className = ''
+}) => {
+  const { t, format } = useSettings();
+  const [series, setSeries] = useState<ChartSeries>('temperature');
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  // 截取从当前小时开始的时段
+  const timeline = useMemo(() => {
+    const startIndex = findCurrentHourIndex(hourly.time, currentTime);
+    const endIndex = startIndex + hours;
+
+    return {
+      time: hourly.time.slice(startIndex, endIndex),
+      temperature: hourly.temperature.slice(startIndex, endIndex),
+      apparentTemperature: hourly.apparentTemperature.slice(startIndex, endIndex),
+      precipitationProbability: hourly.precipitationProbability.slice(startIndex, endIndex),
+      precipitation: hourly.precipitation.slice(startIndex, endIndex),
+      windSpeed: hourly.windSpeed.slice(startIndex, endIndex),
+      isDay: hourly.isDay.slice(startIndex, endIndex)
+    };
+  }, [hourly, currentTime, hours]);
+
+  // 按设置的单位换算后绘制
+  const plotted = useMemo(() => ({
+    temperature: timeline.temperature.map(value => format.convertMetric('temperature', value)),
+    apparentTemperature: timeline.apparentTemperature.map(value => format.convertMetric('temperature', value)),
+    windSpeed: timeline.windSpeed.map(value => format.convertMetric('windSpeed', value))
+  }), [timeline, format]);
+
+  const count = timeline.time.length;
+  const step = count > 1 ? PLOT_WIDTH / (count - 1) : PLOT_WIDTH;
+  const toX = useCallback((index: number) => PADDING.left + index * step, [step]);
+
+  const range = useMemo<[number, number]>(() => {
+    switch (series) {
+      case 'temperature':
+        return getRange([...plotted.temperature, ...plotted.apparentTemperature], [0, 30]);
+      case 'precipitation':
+        return [0, 100];
+      case 'wind':
+        return [0, getRange(plotted.windSpeed, [0, 20])[1]];
+    }
+  }, [series, plotted]);
+
+  const toY = useCallback((value: number) => {
+    const [min, max] = range;
+    return PADDING.top + PLOT_HEIGHT - ((value - min) / (max - min)) * PLOT_HEIGHT;
+  }, [range]);
+
+  // 夜间时段阴影
+  const nightBands = useMemo(() => {
+    const bands: { start: number; end: number }[] = [];
+    timeline.isDay.forEach((isDay, index) => {
+      if (isDay) return;
+      const last = bands[bands.length - 1];
+      if (last && last.end === index - 1) {
+        last.end = index;
+      } else {
+        bands.push({ start: index, end: index });
+      }
+    });
+    return bands;
+  }, [timeline.isDay]);
+
+  // 根据鼠标位置计算对应的小时
+  const handleMouseMove = useCallback((e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
+    const index = Math.round((x - PADDING.left) / step);
+    setHoverIndex(Math.min(count - 1, Math.max(0, index)));
+  }, [step, count]);
+
+  if (count === 0) {
+    return null;
+  }
+
+  const ticks = [range[0], (range[0] + range[1]) / 2, range[1]];
+
+  return (
+    <div className={className}>
+      {/* 指标切换 */}
+      <div className="flex gap-1 mb-2">
+        {SERIES_OPTIONS.map(option => (
+          <Button
+            key={option.key}
+            variant={series === option.key ? 'secondary' : 'ghost'}
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={() => setSeries(option.key)}
+          >
+            {format.metricLabel(option.metric)}
+          </Button>
+        ))}
+      </div>
+
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto select-none"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHoverIndex(null)}
+        >
+          {/* 夜间阴影 */}
+          {nightBands.map(band => (
+            <rect
+              key={band.start}
+              x={Math.max(PADDING.left, toX(band.start) - step / 2)}
+              y={PADDING.top}
+              width={Math.min(toX(band.end) + step / 2, PADDING.left + PLOT_WIDTH) - Math.max(PADDING.left, toX(band.start) - step / 2)}
+              height={PLOT_HEIGHT}
+              fill="#e0e7ff"
+              opacity={0.5}
+            />
+          ))}
+
+          {/* 纵轴刻度 */}
+          {ticks.map(tick => (
+            <g key={tick}>
+              <line
+                x1={PADDING.left}
+                x2={PADDING.left + PLOT_WIDTH}
+                y1={toY(tick)}
+                y2={toY(tick)}
+                stroke="#e5e7eb"
+                strokeDasharray="2 3"
+              />
+              <text x={PADDING.left - 4} y={toY(tick)} textAnchor="end" dominantBaseline="middle" fontSize={10} fill="#6b7280">
+                {Math.round(tick)}
+              </text>
+            </g>
+          ))}
+
+          {/* 横轴：每6小时一个刻度，零点显示日期 */}
+          {timeline.time.map((time, index) => {
+            const hour = format.hourOf(time, timeZone);
+            if (hour % 6 !== 0) return null;
+            return (
+              <text key={time} x={toX(index)} y={HEIGHT - 8} textAnchor="middle" fontSize={10} fill="#6b7280">
+                {hour === 0 ? format.day(time, timeZone) : format.hour(time, timeZone)}
+              </text>
+            );
+          })}
+
+          {/* 数据系列 */}
+          {series === 'temperature' && (
+            <>
+              <path
+                d={buildLinePath(plotted.apparentTemperature, toX, toY)}
+                fill="none"
+                stroke="#fb923c"
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+              />
+              <path
+                d={buildLinePath(plotted.temperature, toX, toY)}
+                fill="none"
+                stroke="#ef4444"
+                strokeWidth={2}
+              />
+            </>
+          )}
+          {series === 'precipitation' && timeline.precipitationProbability.map((value, index) => (
+            Number.isFinite(value) && (
+              <rect
+                key={timeline.time[index]}
+                x={toX(index) - step * 0.35}
+                y={toY(value)}
+                width={step * 0.7}
+                height={PADDING.top + PLOT_HEIGHT - toY(value)}
+                fill="#3b82f6"
+                opacity={0.7}
+              />
+            )
+          ))}
+          {series === 'wind' && (
+            <path
+              d={buildLinePath(plotted.windSpeed, toX, toY)}
+              fill="none"
+              stroke="#10b981"
+              strokeWidth={2}
+            />
+          )}
+
+          {/* 悬停十字线 */}
+          {hoverIndex !== null && (
+            <line
+              x1={toX(hoverIndex)}
+              x2={toX(hoverIndex)}
+              y1={PADDING.top}
+              y2={PADDING.top + PLOT_HEIGHT}
+              stroke="#374151"
+              strokeWidth={1}
+            />
+          )}
+        </svg>
+
+        {/* 悬停信息 */}
+        {hoverIndex !== null && (
+          <div
+            className="absolute top-0 pointer-events-none bg-black/75 text-white rounded-md px-2 py-1 text-xs whitespace-nowrap"
+            style={{
+              left: `${(toX(hoverIndex) / WIDTH) * 100}%`,
+              transform: hoverIndex > count / 2 ? 'translateX(-105%)' : 'translateX(5%)'
+            }}
+          >
+            <div className="font-medium">
+              {format.day(timeline.time[hoverIndex], timeZone)} {format.hour(timeline.time[hoverIndex], timeZone)}
+            </div>
+            <div>{t('metric.temperature')} {format.temperature(timeline.temperature[hoverIndex])}</div>
+            <div>{t('weather.apparent')} {format.temperature(timeline.apparentTemperature[hoverIndex])}</div>
+            <div>
+              {t('metric.precipitation')} {format.percent(timeline.precipitationProbability[hoverIndex])}
+              {' · '}
+              {format.precipitation(timeline.precipitation[hoverIndex])}
+            </div>
+            <div>{t('metric.windSpeed')} {format.windSpeed(timeline.windSpeed[hoverIndex])}</div>
+          </div>
+        )}
+      </div>
+
+      {/* 图例 */}
+      <div className="flex flex-wrap items-center gap-3 mt-1 text-xs text-gray-500">
+        {series === 'temperature' && (
+          <>
+            <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-red-500" />{t('metric.temperature')} ({format.metricUnit('temperature')})</span>
+            <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-orange-400" />{t('weather.apparentTemperature')}</span>
+          </>
+        )}
+        {series === 'precipitation' && (
+          <span className="flex items-center gap-1"><span className="inline-block w-3 h-2 bg-blue-500/70" />{t('weather.precipitationProbability')} (%)</span>
+        )}
+        {series === 'wind' && (
+          <span className="flex items-center gap-1"><span className="inline-block w-3 h-0.5 bg-emerald-500" />{t('metric.windSpeed')} ({format.metricUnit('windSpeed')})</span>
+        )}
+        <span className="flex items-center gap-1"><span className="inline-block w-3 h-2 bg-indigo-100" />{t('weather.night')}</span>
+      </div>
+    </div>
+  );
+};
+
+export default HourlyChart;
@@ -3,142 +3,181 @@
 import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { CloudOff, Star } from 'lucide-react';
 import { WeatherData, WEATHER_CODES } from '@/types';
-import { 
-  formatTemperature, 
-  formatWindSpeed, 
-  formatHumidity, 
-  formatPrecipitation 
-} from '@/lib/api/weather';
+import { evaluateAlerts } from '@/lib/alerts';
+import { parseZonedTime } from '@/lib/i18n/format';
+import { useSettings } from '@/hooks/useSettings';
+import HourlyChart from './HourlyChart';
+import AlertBadge from './AlertBadge';
 
 interface WeatherCardProps {
   weatherData: WeatherData;
   locationName: string;
+  /** 是否已收藏，未提供 onToggleFavorite 时不显示星标 */
+  isFavorite?: boolean;
+  onToggleFavorite?: () => void;
   className?: string;
 }
 
 const WeatherCard: React.FC<WeatherCardProps> = ({ 
   weatherData, 
   locationName, 
+  isFavorite = false,
+  onToggleFavorite,
   className = '' 
 }) => {
+  const { settings, t, format } = useSettings();
   const currentWeather = weatherData.current;
   const dailyWeather = weatherData.daily;
-  
-  // 获取天气描述
-  const getWeatherDescription = (code: number): string => {
-    const weatherInfo = WEATHER_CODES[code];
-    return weatherInfo ? weatherInfo.description : '未知天气';
-  };
+  // 设置的评估时长内的预警，按级别由高到低排列
+  const alerts = evaluateAlerts(weatherData, settings.alertThresholds);
   
   // 获取天气图标
   const getWeatherIcon = (code: number): string => {
     const weatherInfo = WEATHER_CODES[code];
     return weatherInfo ? weatherInfo.icon : '🌤️';
   };
-  
-  // 获取风向
-  const getWindDirection = (degree: number): string => {
-    const directions = ['北', '东北', '东', '东南', '南', '西南', '西', '西北'];
-    const index = Math.round(degree / 45) % 8;
-    return directions[index];
-  };
-  
-  // 格式化日期
-  const formatDate = (dateString: string): string => {
-    const date = new Date(dateString);
-    const today = new Date();
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    
-    if (date.toDateString() === today.toDateString()) {
-      return '今天';
-    } else if (date.toDateString() === tomorrow.toDateString()) {
-      return '明天';
-    } else {
-      return date.toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' });
-    }
-  };
 
   return (
     <Card className={`w-full ${className}`}>
       <CardHeader className="pb-2 sm:pb-3">
         <CardTitle className="flex items-center justify-between">
-          <span className="text-base sm:text-lg font-semibold">{locationName}</span>
-          <Badge variant="outline" className="text-xs">
-            实时天气
-          </Badge>
+          <span className="flex items-center gap-1 min-w-0">
+            <span className="text-base sm:text-lg font-semibold truncate">{locationName}</span>
+            {onToggleFavorite && (
+              <button
+                type="button"
+                onClick={onToggleFavorite}
+                className="p-1 rounded-md text-gray-400 hover:text-amber-500 hover:bg-amber-50"
+                aria-pressed={isFavorite}
+                aria-label={t(isFavorite ? 'favorites.removeNamed' : 'favorites.addNamed', { name: locationName })}
+                title={t(isFavorite ? 'favorites.remove' : 'favorites.add')}
+              >
+                <Star className={`h-4 w-4 ${isFavorite ? 'fill-amber-400 text-amber-500' : ''}`} />
+              </button>
+            )}
+          </span>
+          {alerts.length > 0 ? (
+            <AlertBadge
+              severity={alerts[0].severity}
+              label={alerts.length > 1
+                ? t('weather.alertSummary', { title: format.alertTitle(alerts[0]), count: alerts.length, more: alerts.length - 1 })
+                : format.alertTitle(alerts[0])}
+            />
+          ) : (
+            <Badge variant="outline" className="text-xs">
+              {t('weather.current')}
+            </Badge>
+          )}
         </CardTitle>
+        {weatherData.location && (
+          <div className="text-xs text-gray-500 tabular-nums">
+            {weatherData.location.latitude.toFixed(3)}°N, {weatherData.location.longitude.toFixed(3)}°E
+          </div>
+        )}
+        {weatherData.staleSince !== undefined && (
+          <div className="flex items-center gap-1 text-xs text-amber-700 bg-amber-50 rounded-md px-2 py-1">
+            <CloudOff className="h-3.5 w-3.5 shrink-0" />
+            {t('weather.stale', { time: format.timestamp(weatherData.staleSince) })}
+          </div>
+        )}
       </CardHeader>
       
       <CardContent className="space-y-3 sm:space-y-4">
         {/* 当前天气 */}
         <div className="text-center py-3 sm:py-4 bg-gradient-to-br from-blue-50 to-sky-50 rounded-lg">
           <div className="text-3xl sm:text-4xl mb-2">
-            {getWeatherIcon(currentWeather.weather_code)}
+            {getWeatherIcon(currentWeather.weatherCode)}
           </div>
           <div className="text-2xl sm:text-3xl font-bold text-gray-800 mb-1">
-            {formatTemperature(currentWeather.temperature_2m)}
+            {format.temperature(currentWeather.temperature)}
           </div>
           <div className="text-xs sm:text-sm text-gray-600">
-            {getWeatherDescription(currentWeather.weather_code)}
+            {format.weatherDescription(currentWeather.weatherCode)}
+            <span className="ml-2">{t('weather.apparent')} {format.temperature(currentWeather.apparentTemperature)}</span>
           </div>
         </div>
         
+        {/* 预警详情 */}
+        {alerts.length > 0 && (
+          <ul className="space-y-1 text-xs" aria-label={t('alert.panelTitle')}>
+            {alerts.map(alert => (
+              <li key={alert.type} className="flex flex-wrap items-center gap-x-2 gap-y-1">
+                <AlertBadge severity={alert.severity} label={format.alertTitle(alert)} />
+                <span className="text-gray-600">{format.alertDescription(alert)}</span>
+                <span className="text-gray-400">
+                  {t('alert.from', { time: format.dateTime(alert.time, weatherData.timezone) })}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+        
         {/* 详细信息 */}
         <div className="grid grid-cols-2 gap-2 sm:gap-3 text-xs sm:text-sm">
           <div className="bg-gray-50 p-2 sm:p-3 rounded-lg">
-            <div className="text-gray-500 mb-1">湿度</div>
+            <div className="text-gray-500 mb-1">{t('weather.humidity')}</div>
             <div className="font-semibold">
-              {formatHumidity(currentWeather.relative_humidity_2m)}
+              {format.humidity(currentWeather.humidity)}
             </div>
           </div>
           
           <div className="bg-gray-50 p-2 sm:p-3 rounded-lg">
-            <div className="text-gray-500 mb-1">风速</div>
+            <div className="text-gray-500 mb-1">{t('weather.windSpeed')}</div>
             <div className="font-semibold">
-              {formatWindSpeed(currentWeather.wind_speed_10m)}
+              {format.windSpeed(currentWeather.windSpeed)}
             </div>
           </div>
           
           <div className="bg-gray-50 p-2 sm:p-3 rounded-lg col-span-2">
-            <div className="text-gray-500 mb-1">风向</div>
+            <div className="text-gray-500 mb-1">{t('weather.windDirection')}</div>
             <div className="font-semibold">
-              {getWindDirection(currentWeather.wind_direction_10m)} 
-              ({currentWeather.wind_direction_10m}°)
+              {format.windDirection(currentWeather.windDirection)} 
+              ({currentWeather.windDirection}°)
             </div>
           </div>
         </div>
         
+        {/* 逐小时预报 */}
+        <div>
+          <h4 className="font-medium text-gray-700 mb-2 text-sm sm:text-base">{t('weather.nextHours', { hours: 48 })}</h4>
+          <HourlyChart
+            hourly={weatherData.hourly}
+            currentTime={currentWeather.time}
+            timeZone={weatherData.timezone}
+          />
+        </div>
+        
         {/* 未来几天预报 */}
         <div className="space-y-2">
-          <h4 className="font-medium text-gray-700 mb-2 sm:mb-3 text-sm sm:text-base">未来3天预报</h4>
+          <h4 className="font-medium text-gray-700 mb-2 sm:mb-3 text-sm sm:text-base">{t('weather.nextDays', { days: 3 })}</h4>
           {dailyWeather.time.slice(1, 4).map((date, index) => (
             <div key={date} className="flex items-center justify-between py-2 border-b border-gray-100 last:border-b-0">
               <div className="flex items-center gap-2 sm:gap-3">
                 <span className="text-xl sm:text-2xl">
-                  {getWeatherIcon(dailyWeather.weather_code[index + 1])}
+                  {getWeatherIcon(dailyWeather.weatherCode[index + 1])}
                 </span>
                 <div>
                   <div className="font-medium text-xs sm:text-sm">
-                    {formatDate(date)}
+                    {format.forecastDate(date, index + 1)}
                   </div>
                   <div className="text-xs text-gray-500 hidden sm:block">
-                    {getWeatherDescription(dailyWeather.weather_code[index + 1])}
+                    {format.weatherDescription(dailyWeather.weatherCode[index + 1])}
                   </div>
                 </div>
               </div>
               
               <div className="text-right">
                 <div className="font-semibold text-xs sm:text-sm">
-                  {formatTemperature(dailyWeather.temperature_2m_max[index + 1])}
+                  {format.temperature(dailyWeather.temperatureMax[index + 1])}
                 </div>
                 <div className="text-xs text-gray-500">
-                  {formatTemperature(dailyWeather.temperature_2m_min[index + 1])}
+                  {format.temperature(dailyWeather.temperatureMin[index + 1])}
                 </div>
-                {dailyWeather.precipitation_sum[index + 1] > 0 && (
+                {dailyWeather.precipitationSum[index + 1] > 0 && (
                   <div className="text-xs text-blue-600">
-                    {formatPrecipitation(dailyWeather.precipitation_sum[index + 1])}
+                    {format.precipitation(dailyWeather.precipitationSum[index + 1])}
                   </div>
                 )}
               </div>
@@ -148,7 +187,7 @@ const WeatherCard: React.FC<WeatherCardProps> = ({
         
         {/* 更新时间 */}
         <div className="text-xs text-gray-400 text-center pt-2 border-t border-gray-100">
-          更新时间: {new Date(currentWeather.time).toLocaleString('zh-CN')}
+          {t('weather.updatedAt', { time: format.timestamp(parseZonedTime(currentWeather.time, weatherData.timezone)) })}
         </div>
       </CardContent>
     </Card>
@@ -0,0 +1,132 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CompareLocation, FavoriteLocation } from '@/types';
+import {
+  FAVORITES_STORAGE_KEY,
+  MAX_FAVORITES,
+  FavoritesFormatError,
+  createFavorite,
+  loadFavorites,
+  mergeFavorites,
+  parseFavorites,
+  saveFavorites,
+  serializeFavorites
+} from '@/lib/favorites';
+
+export interface FavoritesState {
+  favorites: FavoriteLocation[];
+  isFavorite: (id: string) => boolean;
+  /** 切换收藏状态，已满时返回 false */
+  toggle: (location: CompareLocation) => boolean;
+  remove: (id: string) => void;
+  /** 重命名，名称为空时恢复原名 */
+  rename: (id: string, label: string) => void;
+  /** 上移（-1）或下移（1） */
+  move: (id: string, offset: number) => void;
+  /** 导入 JSON 文本，返回新增的条目数（按调用时的列表计算） */
+  importJson: (text: string) => number;
+  exportJson: () => string;
+}
+
+/**
+ * 收藏的地点，保存在 localStorage 中并在多个标签页间同步
+ */
+export function useFavorites(): FavoritesState {
+  // 服务端渲染时没有 localStorage，挂载后再读取
+  const [favorites, setFavorites] = useState<FavoriteLocation[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  // 与存储中一致的列表，从存储读取的变化不再写回
+  const storedRef = useRef<FavoriteLocation[] | null>(null);
+
+  useEffect(() => {
+    const load = () => {
+      const stored = loadFavorites();
+      storedRef.current = stored;
+      setFavorites(stored);
+    };
+    load();
+    setLoaded(true);
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === FAVORITES_STORAGE_KEY) load();
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // 修改后写入存储；读取存储前的初始空列表不写入
+  useEffect(() => {
+    if (!loaded || favorites === storedRef.current) return;
+    storedRef.current = favorites;
+    try {
+      saveFavorites(favorites);
+    } catch (error) {
+      console.error('Failed to save favorites:', error);
+    }
+  }, [favorites, loaded]);
+
+  const isFavorite = useCallback(
+    (id: string) => favorites.some(favorite => favorite.id === id),
+    [favorites]
+  );
+
+  const toggle = useCallback((location: CompareLocation) => {
+    if (favorites.some(favorite => favorite.id === location.id)) {
+      setFavorites(prev => prev.filter(favorite => favorite.id !== location.id));
+      return true;
+    }
+    if (favorites.length >= MAX_FAVORITES) return false;
+
+    setFavorites(prev => [...prev, createFavorite(location)]);
+    return true;
+  }, [favorites]);
+
+  const remove = useCallback((id: string) => {
+    setFavorites(prev => prev.filter(favorite => favorite.id !== id));
+  }, []);
+
+  const rename = useCallback((id: string, label: string) => {
+    const trimmed = label.trim();
+    setFavorites(prev => prev.map(favorite => {
+      if (favorite.id !== id) return favorite;
+      const renamed = { ...favorite };
+      if (trimmed && trimmed !== favorite.name) renamed.label = trimmed;
+      else delete renamed.label;
+      return renamed;
+    }));
+  }, []);
+
+  const move = useCallback((id: string, offset: number) => {
+    setFavorites(prev => {
+      const index = prev.findIndex(favorite => favorite.id === id);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= prev.length) return prev;
+
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, []);
+
+  const importJson = useCallback((text: string) => {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      throw new FavoritesFormatError('文件不是有效的 JSON');
+    }
+
+    // 合并到最新的列表，避免覆盖同时发生的修改
+    const imported = parseFavorites(raw);
+    setFavorites(prev => {
+      const { favorites: merged, added } = mergeFavorites(prev, imported);
+      return added > 0 ? merged : prev;
+    });
+    return mergeFavorites(favorites, imported).added;
+  }, [favorites]);
+
+  const exportJson = useCallback(() => serializeFavorites(favorites), [favorites]);
+
+  return { favorites, isFavorite, toggle, remove, rename, move, importJson, exportJson };
+}
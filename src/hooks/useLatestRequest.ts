@@ -0,0 +1,50 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef } from 'react';
+
+export interface LatestRequest {
+  /**
+   * 发起请求并取消之前未完成的请求
+   *
+   * 被新请求取代或被取消时以 AbortError 结束；即使任务未响应 signal，
+   * 过期的结果也不会返回给调用方。
+   */
+  run: <T>(task: (signal: AbortSignal) => Promise<T>) => Promise<T>;
+  /** 取消当前未完成的请求 */
+  cancel: () => void;
+}
+
+/**
+ * 只保留最新一次请求：同一使用方的新请求会取消旧请求，卸载时取消全部
+ */
+export function useLatestRequest(): LatestRequest {
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const run = useCallback(async <T>(task: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+
+    try {
+      const result = await task(signal);
+      signal.throwIfAborted();
+      return result;
+    } catch (error) {
+      // 已被取代的请求统一以 AbortError 结束，避免旧请求的错误覆盖新状态
+      signal.throwIfAborted();
+      throw error;
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+    }
+  }, []);
+
+  return useMemo(() => ({ run, cancel }), [run, cancel]);
+}
@@ -0,0 +1,71 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CompareLocation, WeatherData, WeatherErrorCode } from '@/types';
+import { WeatherAPI } from '@/lib/api/weather';
+import { WeatherAPIError } from '@/lib/api/errors';
+
+interface LocationsWeatherState {
+  /** 按地点 id 索引的天气数据 */
+  data: Record<string, WeatherData>;
+  loading: boolean;
+  /** 按地点 id 索引的错误类别 */
+  errors: Record<string, WeatherErrorCode>;
+}
+
+/**
+ * 获取一组地点（对比、收藏）的天气数据
+ *
+ * 列表变化时整体重新请求，已缓存的地点直接取缓存。
+ */
+export function useLocationsWeather(locations: CompareLocation[]): LocationsWeatherState {
+  const [state, setState] = useState<LocationsWeatherState>({
+    data: {},
+    loading: false,
+    errors: {}
+  });
+
+  useEffect(() => {
+    if (locations.length === 0) {
+      setState({ data: {}, loading: false, errors: {} });
+      return;
+    }
+
+    // 列表变化或卸载时取消未完成的请求
+    const controller = new AbortController();
+    setState(prev => ({ ...prev, loading: true }));
+
+    WeatherAPI.getBatchWeatherData(locations.map(location => location.coordinates), { signal: controller.signal })
+      .then(results => {
+        if (controller.signal.aborted) return;
+
+        const data: Record<string, WeatherData> = {};
+        const errors: Record<string, WeatherErrorCode> = {};
+        locations.forEach((location, index) => {
+          const result = results[index];
+          if (result.ok) {
+            data[location.id] = result.data;
+          } else {
+            errors[location.id] = result.error;
+          }
+        });
+        setState({ data, loading: false, errors });
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to fetch locations weather:', err);
+        const code: WeatherErrorCode = err instanceof WeatherAPIError ? err.code : 'unavailable';
+        setState({
+          data: {},
+          loading: false,
+          errors: Object.fromEntries(locations.map(location => [location.id, code]))
+        });
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [locations]);
+
+  return state;
+}
@@ -0,0 +1,345 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * 地图平移缩放状态，对应 translate(x, y) scale(zoom)
+ */
+export interface MapTransform {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+interface MapGestureOptions {
+  /** viewBox 宽高，即地图内容的尺寸 */
+  width: number;
+  height: number;
+  minZoom?: number;
+  maxZoom?: number;
+  /** SVG 挂载后为 true，用于绑定原生滚轮事件 */
+  enabled?: boolean;
+}
+
+interface SvgPoint {
+  x: number;
+  y: number;
+}
+
+export const DEFAULT_MAP_TRANSFORM: MapTransform = { zoom: 1, x: 0, y: 0 };
+
+// 指针移动超过该像素距离视为拖拽，随后的 click 不再触发选择
+const DRAG_THRESHOLD = 5;
+// 惯性滑动每 16ms 的速度衰减系数
+const INERTIA_FRICTION = 0.92;
+// 惯性滑动的起止速度（viewBox 单位/毫秒）
+const INERTIA_MIN_SPEED = 0.02;
+// 松手前停顿超过该时长则不触发惯性
+const INERTIA_MAX_IDLE = 80;
+
+/**
+ * 将屏幕坐标换算为 SVG viewBox 坐标
+ */
+export function clientToSvgPoint(svg: SVGSVGElement, clientX: number, clientY: number): SvgPoint | null {
+  const matrix = svg.getScreenCTM();
+  if (!matrix) return null;
+  const point = new DOMPoint(clientX, clientY).matrixTransform(matrix.inverse());
+  return { x: point.x, y: point.y };
+}
+
+/**
+ * 限制平移范围：放大时不露出内容以外的空白，缩小时内容不移出画布
+ */
+function clampTransform(transform: MapTransform, width: number, height: number): MapTransform {
+  const clampAxis = (offset: number, size: number) => {
+    const slack = size - size * transform.zoom;
+    return Math.max(Math.min(0, slack), Math.min(Math.max(0, slack), offset));
+  };
+  return {
+    zoom: transform.zoom,
+    x: clampAxis(transform.x, width),
+    y: clampAxis(transform.y, height)
+  };
+}
+
+/**
+ * 以 anchor 为不动点缩放到 zoom
+ */
+function zoomAround(transform: MapTransform, zoom: number, anchor: SvgPoint): MapTransform {
+  const ratio = zoom / transform.zoom;
+  return {
+    zoom,
+    x: anchor.x - (anchor.x - transform.x) * ratio,
+    y: anchor.y - (anchor.y - transform.y) * ratio
+  };
+}
+
+function midpoint(a: SvgPoint, b: SvgPoint): SvgPoint {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+function distance(a: SvgPoint, b: SvgPoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/**
+ * 基于 Pointer Events 的地图手势
+ *
+ * 单指（或鼠标左键）拖拽平移，双指捏合缩放并以两指中点为锚点，滚轮以光标为锚点缩放；
+ * 松手后按拖拽速度惯性滑动，平移范围始终限制在地图内容内。
+ */
+export function useMapGestures(svgRef: React.RefObject<SVGSVGElement | null>, {
+  width,
+  height,
+  minZoom = 0.5,
+  maxZoom = 3,
+  enabled = true
+}: MapGestureOptions) {
+  const [transform, setTransformState] = useState<MapTransform>(DEFAULT_MAP_TRANSFORM);
+  const [isDragging, setIsDragging] = useState(false);
+
+  // 手势处理需要同步读取最新值，状态同时保存在 ref 中
+  const transformRef = useRef(transform);
+  const sizeRef = useRef({ width, height });
+  sizeRef.current = { width, height };
+
+  // 按下中的指针（viewBox 坐标）
+  const pointersRef = useRef(new Map<number, SvgPoint>());
+  const gestureRef = useRef<{
+    startClient: SvgPoint;
+    startTransform: MapTransform;
+    startPoint: SvgPoint;
+    startDistance: number;
+    moved: boolean;
+  } | null>(null);
+  const velocityRef = useRef({ x: 0, y: 0, time: 0 });
+  const inertiaFrameRef = useRef<number | null>(null);
+  const suppressClickRef = useRef(false);
+
+  const clampZoom = useCallback(
+    (zoom: number) => Math.max(minZoom, Math.min(maxZoom, zoom)),
+    [minZoom, maxZoom]
+  );
+
+  const applyTransform = useCallback((next: MapTransform) => {
+    const { width: w, height: h } = sizeRef.current;
+    const clamped = clampTransform(next, w, h);
+    transformRef.current = clamped;
+    setTransformState(clamped);
+    return clamped;
+  }, []);
+
+  const stopInertia = useCallback(() => {
+    if (inertiaFrameRef.current !== null) {
+      cancelAnimationFrame(inertiaFrameRef.current);
+      inertiaFrameRef.current = null;
+    }
+  }, []);
+
+  const startInertia = useCallback(() => {
+    const { x, y, time } = velocityRef.current;
+    if (performance.now() - time > INERTIA_MAX_IDLE || Math.hypot(x, y) < INERTIA_MIN_SPEED) return;
+
+    let velocity = { x, y };
+    let last = performance.now();
+
+    const step = (now: number) => {
+      const elapsed = Math.min(now - last, 64);
+      last = now;
+
+      const current = transformRef.current;
+      const next = applyTransform({
+        ...current,
+        x: current.x + velocity.x * elapsed,
+        y: current.y + velocity.y * elapsed
+      });
+
+      // 撞到边界的方向停止滑动
+      const decay = Math.pow(INERTIA_FRICTION, elapsed / 16);
+      velocity = {
+        x: next.x === current.x + velocity.x * elapsed ? velocity.x * decay : 0,
+        y: next.y === current.y + velocity.y * elapsed ? velocity.y * decay : 0
+      };
+
+      inertiaFrameRef.current = Math.hypot(velocity.x, velocity.y) >= INERTIA_MIN_SPEED / 4
+        ? requestAnimationFrame(step)
+        : null;
+    };
+
+    inertiaFrameRef.current = requestAnimationFrame(step);
+  }, [applyTransform]);
+
+  // 以当前指针重新开始一段手势（指针数变化时调用，避免跳动）
+  const beginGesture = useCallback((startClient: SvgPoint, moved: boolean) => {
+    const points = Array.from(pointersRef.current.values());
+    if (points.length === 0) {
+      gestureRef.current = null;
+      return;
+    }
+    gestureRef.current = {
+      startClient,
+      startTransform: transformRef.current,
+      startPoint: points.length >= 2 ? midpoint(points[0], points[1]) : points[0],
+      startDistance: points.length >= 2 ? distance(points[0], points[1]) : 0,
+      moved
+    };
+  }, []);
+
+  const handlePointerDown = useCallback((e: React.PointerEvent<SVGSVGElement>) => {
+    if (e.pointerType === 'mouse' && e.button !== 0) return;
+    const svg = svgRef.current;
+    const point = svg && clientToSvgPoint(svg, e.clientX, e.clientY);
+    if (!point) return;
+
+    stopInertia();
+    suppressClickRef.current = false;
+    pointersRef.current.set(e.pointerId, point);
+    velocityRef.current = { x: 0, y: 0, time: 0 };
+    beginGesture({ x: e.clientX, y: e.clientY }, gestureRef.current?.moved ?? false);
+  }, [svgRef, stopInertia, beginGesture]);
+
+  const handlePointerMove = useCallback((e: React.PointerEvent<SVGSVGElement>) => {
+    const gesture = gestureRef.current;
+    const svg = svgRef.current;
+    if (!gesture || !svg || !pointersRef.current.has(e.pointerId)) return;
+
+    // 未捕获前在画布外松开鼠标，收不到 pointerup
+    if (e.pointerType === 'mouse' && e.buttons === 0) {
+      pointersRef.current.delete(e.pointerId);
+      gestureRef.current = null;
+      setIsDragging(false);
+      return;
+    }
+
+    const point = clientToSvgPoint(svg, e.clientX, e.clientY);
+    if (!point) return;
+    pointersRef.current.set(e.pointerId, point);
+
+    if (!gesture.moved) {
+      const travelled = Math.hypot(e.clientX - gesture.startClient.x, e.clientY - gesture.startClient.y);
+      if (travelled < DRAG_THRESHOLD && pointersRef.current.size < 2) return;
+
+      // 确认为拖拽后才捕获指针，保证轻点仍能落在区域路径上触发 click
+      gesture.moved = true;
+      suppressClickRef.current = true;
+      setIsDragging(true);
+      svg.setPointerCapture(e.pointerId);
+    }
+
+    const points = Array.from(pointersRef.current.values());
+    const { startTransform, startPoint, startDistance } = gesture;
+    const previous = transformRef.current;
+    let next: MapTransform;
+
+    if (points.length >= 2 && startDistance > 0) {
+      // 捏合：起始中点下的地图位置跟随当前中点
+      const center = midpoint(points[0], points[1]);
+      const zoom = clampZoom(startTransform.zoom * distance(points[0], points[1]) / startDistance);
+      const scaled = zoomAround(startTransform, zoom, startPoint);
+      next = { zoom, x: scaled.x + center.x - startPoint.x, y: scaled.y + center.y - startPoint.y };
+    } else {
+      next = {
+        ...startTransform,
+        x: startTransform.x + point.x - startPoint.x,
+        y: startTransform.y + point.y - startPoint.y
+      };
+    }
+
+    const applied = applyTransform(next);
+
+    // 记录平滑后的平移速度，供惯性使用
+    const now = performance.now();
+    const last = velocityRef.current;
+    const elapsed = now - (last.time || now);
+    if (elapsed > 0 && points.length === 1) {
+      const vx = (applied.x - previous.x) / elapsed;
+      const vy = (applied.y - previous.y) / elapsed;
+      velocityRef.current = { x: vx * 0.8 + last.x * 0.2, y: vy * 0.8 + last.y * 0.2, time: now };
+    } else {
+      velocityRef.current = { ...last, time: now };
+    }
+  }, [svgRef, clampZoom, applyTransform]);
+
+  const handlePointerUp = useCallback((e: React.PointerEvent<SVGSVGElement>) => {
+    if (!pointersRef.current.delete(e.pointerId)) return;
+
+    const gesture = gestureRef.current;
+    if (pointersRef.current.size > 0) {
+      // 双指变单指时以剩余手指继续平移，不触发惯性
+      beginGesture({ x: e.clientX, y: e.clientY }, gesture?.moved ?? false);
+      velocityRef.current = { x: 0, y: 0, time: 0 };
+      return;
+    }
+
+    gestureRef.current = null;
+    setIsDragging(false);
+    if (gesture?.moved && e.type === 'pointerup') startInertia();
+  }, [beginGesture, startInertia]);
+
+  // 拖拽结束后的 click 不作为区域选择
+  const handleClickCapture = useCallback((e: React.MouseEvent) => {
+    if (suppressClickRef.current) {
+      suppressClickRef.current = false;
+      e.stopPropagation();
+    }
+  }, []);
+
+  // 滚轮缩放需要阻止页面滚动，React 的 wheel 监听为 passive，这里直接绑定原生事件
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!enabled || !svg) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const anchor = clientToSvgPoint(svg, e.clientX, e.clientY);
+      if (!anchor) return;
+
+      stopInertia();
+      // 行模式（Firefox）的 delta 远小于像素模式，统一换算后按指数缩放，触控板也能平滑
+      const delta = e.deltaMode === 1 ? e.deltaY * 16 : e.deltaY;
+      const factor = Math.exp(-Math.max(-100, Math.min(100, delta)) * 0.002);
+      const current = transformRef.current;
+      applyTransform(zoomAround(current, clampZoom(current.zoom * factor), anchor));
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, [svgRef, enabled, clampZoom, applyTransform, stopInertia]);
+
+  useEffect(() => stopInertia, [stopInertia]);
+
+  /**
+   * 按倍数缩放，默认以画布中心为锚点
+   */
+  const zoomBy = useCallback((factor: number, anchor?: SvgPoint) => {
+    stopInertia();
+    const { width: w, height: h } = sizeRef.current;
+    const current = transformRef.current;
+    applyTransform(zoomAround(current, clampZoom(current.zoom * factor), anchor ?? { x: w / 2, y: h / 2 }));
+  }, [clampZoom, applyTransform, stopInertia]);
+
+  /**
+   * 直接设置平移缩放（如从 URL 恢复视图），同样受缩放和平移范围限制
+   */
+  const setTransform = useCallback((next: MapTransform) => {
+    stopInertia();
+    applyTransform({ ...next, zoom: clampZoom(next.zoom) });
+  }, [clampZoom, applyTransform, stopInertia]);
+
+  const reset = useCallback(() => setTransform(DEFAULT_MAP_TRANSFORM), [setTransform]);
+
+  return {
+    transform,
+    isDragging,
+    zoomBy,
+    setTransform,
+    reset,
+    handlers: {
+      onPointerDown: handlePointerDown,
+      onPointerMove: handlePointerMove,
+      onPointerUp: handlePointerUp,
+      onPointerCancel: handlePointerUp,
+      onClickCapture: handleClickCapture
+    }
+  };
+}
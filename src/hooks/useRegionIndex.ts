@@ -0,0 +1,37 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RegionIndex, loadRegionIndex } from '@/lib/region-index';
+import { Message } from '@/lib/i18n';
+
+interface RegionIndexState {
+  index: RegionIndex | null;
+  loading: boolean;
+  error: Message | null;
+}
+
+/**
+ * 加载区域索引（市、区县两级地图数据及 adcode 查找表）
+ */
+export function useRegionIndex(): RegionIndexState {
+  const [state, setState] = useState<RegionIndexState>({ index: null, loading: true, error: null });
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadRegionIndex()
+      .then(index => {
+        if (!cancelled) setState({ index, loading: false, error: null });
+      })
+      .catch(err => {
+        console.error('Failed to load map data:', err);
+        if (!cancelled) setState({ index: null, loading: false, error: { key: 'map.loadFailed' } });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return state;
+}
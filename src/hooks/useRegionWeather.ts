@@ -0,0 +1,75 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { GeoFeature, WeatherData } from '@/types';
+import { WeatherAPI } from '@/lib/api/weather';
+import { getRegionCenter } from '@/lib/map-utils';
+import { Message, describeError } from '@/lib/i18n';
+
+interface RegionWeatherState {
+  /** 按区县 adcode 索引的天气数据 */
+  data: Record<number, WeatherData>;
+  loading: boolean;
+  error: Message | null;
+}
+
+/**
+ * 获取一组区县中心点的天气数据，用于专题地图着色
+ */
+export function useRegionWeather(features: GeoFeature[] | null, enabled: boolean): RegionWeatherState {
+  const [state, setState] = useState<RegionWeatherState>({
+    data: {},
+    loading: false,
+    error: null
+  });
+
+  useEffect(() => {
+    if (!enabled || !features || features.length === 0) return;
+
+    // 列表变化或卸载时取消未完成的请求
+    const controller = new AbortController();
+    setState(prev => ({ ...prev, loading: true, error: null }));
+
+    WeatherAPI.getBatchWeatherData(features.map(getRegionCenter), { signal: controller.signal })
+      .then(results => {
+        if (controller.signal.aborted) return;
+
+        const data: Record<number, WeatherData> = {};
+        let failed = 0;
+        features.forEach((feature, index) => {
+          const result = results[index];
+          if (result.ok) {
+            data[feature.properties.adcode] = result.data;
+          } else {
+            failed++;
+          }
+        });
+
+        // 部分失败时保留已获取的区县，仅提示失败数量
+        setState({
+          data,
+          loading: false,
+          error: failed === 0
+            ? null
+            : failed === features.length
+            ? { key: 'map.weatherFailed' }
+            : { key: 'map.weatherPartialFailed', params: { count: failed } }
+        });
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        console.error('Failed to fetch region weather:', err);
+        setState(prev => ({
+          ...prev,
+          loading: false,
+          error: describeError(err, 'map.weatherFailed')
+        }));
+      });
+
+    return () => {
+      controller.abort();
+    };
+  }, [features, enabled]);
+
+  return state;
+}
@@ -0,0 +1,29 @@
+'use client';
+
+import { createContext, useContext } from 'react';
+import { Settings } from '@/lib/settings';
+import { Translate } from '@/lib/i18n';
+import { Formatters } from '@/lib/i18n/format';
+
+export interface SettingsState {
+  settings: Settings;
+  /** 修改部分设置并立即保存 */
+  updateSettings: (patch: Partial<Settings>) => void;
+  /** 恢复默认单位、时区和预警阈值，保留界面语言 */
+  resetSettings: () => void;
+  /** 当前语言的翻译函数 */
+  t: Translate;
+  /** 按当前语言、单位和时区格式化数据 */
+  format: Formatters;
+}
+
+export const SettingsContext = createContext<SettingsState | null>(null);
+
+/**
+ * 用户设置及对应的翻译和格式化函数，须在 SettingsProvider 内使用
+ */
+export function useSettings(): SettingsState {
+  const state = useContext(SettingsContext);
+  if (!state) throw new Error('useSettings must be used within SettingsProvider');
+  return state;
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { WeatherData } from '@/types';
+import { DEFAULT_ALERT_THRESHOLDS, evaluateAlerts, parseAlertThresholds } from './alerts';
+
+/**
+ * 构造逐小时预报，未指定的序列取温和天气
+ */
+function createWeather(hours: number, overrides: Partial<Record<'temperature' | 'windGusts', number[]>> = {}) {
+  const times = Array.from({ length: hours }, (_, index) =>
+    new Date(Date.UTC(2024, 6, 1, index)).toISOString().slice(0, 16)
+  );
+  const fill = (value: number) => times.map(() => value);
+
+  return {
+    current: { time: times[0] },
+    hourly: {
+      time: times,
+      temperature: overrides.temperature ?? fill(20),
+      humidity: fill(50),
+      precipitation: fill(0),
+      windGusts: overrides.windGusts ?? fill(10),
+      weatherCode: fill(0)
+    }
+  } as unknown as WeatherData;
+}
+
+describe('evaluateAlerts', () => {
+  it('uses the given thresholds', () => {
+    const weather = createWeather(24, { windGusts: Array.from({ length: 24 }, () => 40) });
+
+    expect(evaluateAlerts(weather)).toEqual([]);
+    const alerts = evaluateAlerts(weather, { ...DEFAULT_ALERT_THRESHOLDS, gust: [30, 40, 60, 80] });
+    expect(alerts).toHaveLength(1);
+    expect(alerts[0]).toMatchObject({ type: 'gust', severity: 'yellow', value: 40 });
+  });
+
+  it('only looks ahead for the configured horizon', () => {
+    const temperature = Array.from({ length: 72 }, (_, index) => (index === 60 ? -4 : 5));
+    const weather = createWeather(72, { temperature });
+
+    expect(evaluateAlerts(weather, { ...DEFAULT_ALERT_THRESHOLDS, horizonHours: 48 })).toEqual([]);
+    expect(evaluateAlerts(weather, { ...DEFAULT_ALERT_THRESHOLDS, horizonHours: 72 })[0])
+      .toMatchObject({ type: 'freezing', severity: 'yellow' });
+  });
+});
+
+describe('parseAlertThresholds', () => {
+  it('keeps valid values and falls back for invalid ones', () => {
+    const thresholds = parseAlertThresholds({
+      rain: [10, 20, 30, 40],
+      gust: [1, 2, 'x', 4],
+      heat: [30, 35],
+      horizonHours: 24
+    });
+
+    expect(thresholds.rain).toEqual([10, 20, 30, 40]);
+    expect(thresholds.gust).toEqual(DEFAULT_ALERT_THRESHOLDS.gust);
+    expect(thresholds.heat).toEqual(DEFAULT_ALERT_THRESHOLDS.heat);
+    expect(thresholds.freezing).toEqual(DEFAULT_ALERT_THRESHOLDS.freezing);
+    expect(thresholds.horizonHours).toBe(24);
+  });
+
+  it('rejects unsupported horizons', () => {
+    expect(parseAlertThresholds({ horizonHours: 1000 }).horizonHours).toBe(DEFAULT_ALERT_THRESHOLDS.horizonHours);
+    expect(parseAlertThresholds(null)).toBe(DEFAULT_ALERT_THRESHOLDS);
+  });
+});
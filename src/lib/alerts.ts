@@ -0,0 +1,232 @@
+import { Coordinates, WeatherData } from '@/types';
+import { findCurrentHourIndex } from './chart-utils';
+
+/**
+ * 预警级别，参照气象预警信号由低到高分为蓝、黄、橙、红四级
+ */
+export type AlertSeverity = 'blue' | 'yellow' | 'orange' | 'red';
+
+/**
+ * 预警类型
+ */
+export type AlertType = 'rain' | 'gust' | 'heat' | 'freezing' | 'thunderstorm';
+
+/** 预警级别，按由低到高排列 */
+export const ALERT_SEVERITIES: AlertSeverity[] = ['blue', 'yellow', 'orange', 'red'];
+
+export const ALERT_SEVERITY_STYLES: Record<AlertSeverity, { color: string; background: string }> = {
+  blue: { color: '#2563eb', background: '#dbeafe' },
+  yellow: { color: '#ca8a04', background: '#fef9c3' },
+  orange: { color: '#ea580c', background: '#ffedd5' },
+  red: { color: '#dc2626', background: '#fee2e2' }
+};
+
+/**
+ * 蓝、黄、橙、红四级的触发阈值
+ */
+export type SeverityThresholds = [number, number, number, number];
+
+/**
+ * 预警规则的阈值配置
+ */
+export interface AlertThresholds {
+  /** 24 小时累计降水量（mm），达到阈值触发 */
+  rain: SeverityThresholds;
+  /** 阵风（km/h），达到阈值触发 */
+  gust: SeverityThresholds;
+  /** 炎热指数（°C），达到阈值触发 */
+  heat: SeverityThresholds;
+  /** 气温（°C），低于或等于阈值触发 */
+  freezing: SeverityThresholds;
+  /** 雷暴天气代码对应的级别 */
+  thunderstorm: Record<number, AlertSeverity>;
+  /** 从当前小时起评估的预报时长（小时） */
+  horizonHours: number;
+}
+
+export const DEFAULT_ALERT_THRESHOLDS: AlertThresholds = {
+  // 大雨、暴雨、大暴雨、特大暴雨
+  rain: [25, 50, 100, 250],
+  // 蒲福风级 7、8、9、10 级的下限
+  gust: [50, 62, 75, 89],
+  // 炎热指数高于气温，湿热天气下阈值相应提高
+  heat: [35, 40, 45, 54],
+  freezing: [0, -3, -6, -10],
+  // 95 雷暴，96、99 伴有冰雹
+  thunderstorm: { 95: 'yellow', 96: 'orange', 99: 'red' },
+  horizonHours: 48
+};
+
+/** 可按数值阈值配置的预警类型 */
+export type ThresholdAlertType = Exclude<AlertType, 'thunderstorm'>;
+
+export const THRESHOLD_ALERT_TYPES: ThresholdAlertType[] = ['rain', 'gust', 'heat', 'freezing'];
+
+/** 设置中可选的评估时长（小时），不超过 7 天逐小时预报的范围 */
+export const ALERT_HORIZONS = [12, 24, 48, 72, 120];
+
+function isSeverityThresholds(value: unknown): value is SeverityThresholds {
+  return Array.isArray(value)
+    && value.length === ALERT_SEVERITIES.length
+    && value.every(item => typeof item === 'number' && Number.isFinite(item));
+}
+
+/**
+ * 解析保存的阈值配置，无效或缺失的项使用 defaults 中的值；雷暴规则不可配置
+ */
+export function parseAlertThresholds(
+  raw: unknown,
+  defaults: AlertThresholds = DEFAULT_ALERT_THRESHOLDS
+): AlertThresholds {
+  if (typeof raw !== 'object' || raw === null) return defaults;
+
+  const source = raw as Partial<Record<keyof AlertThresholds, unknown>>;
+  const severity = (type: ThresholdAlertType) => {
+    const value = source[type];
+    return isSeverityThresholds(value) ? [...value] as SeverityThresholds : defaults[type];
+  };
+  const horizon = source.horizonHours;
+
+  return {
+    rain: severity('rain'),
+    gust: severity('gust'),
+    heat: severity('heat'),
+    freezing: severity('freezing'),
+    thunderstorm: defaults.thunderstorm,
+    horizonHours: typeof horizon === 'number' && ALERT_HORIZONS.includes(horizon) ? horizon : defaults.horizonHours
+  };
+}
+
+/**
+ * 单条预警，名称和说明按界面语言由 type、severity 和 value 生成
+ */
+export interface WeatherAlert {
+  type: AlertType;
+  severity: AlertSeverity;
+  /** 首次达到该级别的时次（逐小时预报时间） */
+  time: string;
+  /** 触发时的数值（雷暴为天气代码） */
+  value: number;
+}
+
+/**
+ * 区县的预警汇总
+ */
+export interface RegionAlerts {
+  adcode: number;
+  name: string;
+  /** 区县中心，即预报取值位置 */
+  coordinates: Coordinates;
+  /** 预警时次所在的时区 */
+  timeZone: string;
+  /** 按级别由高到低排列 */
+  alerts: WeatherAlert[];
+  severity: AlertSeverity;
+}
+
+/**
+ * 比较两个级别，返回值大于 0 表示 a 更高
+ */
+export function compareSeverity(a: AlertSeverity, b: AlertSeverity): number {
+  return ALERT_SEVERITIES.indexOf(a) - ALERT_SEVERITIES.indexOf(b);
+}
+
+/**
+ * 一组预警中的最高级别，没有预警时返回 null
+ */
+export function getHighestSeverity(alerts: { severity: AlertSeverity }[]): AlertSeverity | null {
+  return alerts.reduce<AlertSeverity | null>(
+    (highest, { severity }) => (highest === null || compareSeverity(severity, highest) > 0 ? severity : highest),
+    null
+  );
+}
+
+/**
+ * 炎热指数（体感温度），采用美国国家气象局的 Rothfusz 回归公式
+ *
+ * 气温低于 27°C 或湿度低于 40% 时公式不适用，直接返回气温。
+ */
+export function calculateHeatIndex(temperature: number, humidity: number): number {
+  if (temperature < 27 || humidity < 40) return temperature;
+
+  const t = temperature * 9 / 5 + 32;
+  const r = humidity;
+  const index = -42.379 + 2.04901523 * t + 10.14333127 * r
+    - 0.22475541 * t * r - 0.00683783 * t * t - 0.05481717 * r * r
+    + 0.00122874 * t * t * r + 0.00085282 * t * r * r - 0.00000199 * t * t * r * r;
+  return (index - 32) * 5 / 9;
+}
+
+/**
+ * 按阈值判断级别，descending 为 true 时数值越低级别越高
+ */
+function classify(value: number, thresholds: SeverityThresholds, descending = false): AlertSeverity | null {
+  if (Number.isNaN(value)) return null;
+  for (let level = ALERT_SEVERITIES.length - 1; level >= 0; level--) {
+    if (descending ? value <= thresholds[level] : value >= thresholds[level]) return ALERT_SEVERITIES[level];
+  }
+  return null;
+}
+
+/**
+ * 从 start 起 24 小时的累计降水，缺测按 0 计
+ */
+function sumPrecipitation(precipitation: number[], start: number): number {
+  return precipitation
+    .slice(start, start + 24)
+    .reduce((sum, value) => sum + (Number.isNaN(value) ? 0 : value), 0);
+}
+
+/**
+ * 按阈值评估一个位置的预报，每类预警只保留最高级别
+ *
+ * 从当前小时起逐时检查，记录首次达到最高级别的时次，结果按级别由高到低排列。
+ */
+export function evaluateAlerts(
+  weather: WeatherData,
+  thresholds: AlertThresholds = DEFAULT_ALERT_THRESHOLDS
+): WeatherAlert[] {
+  const { hourly } = weather;
+  const start = findCurrentHourIndex(hourly.time, weather.current.time);
+  const end = Math.min(hourly.time.length, start + thresholds.horizonHours);
+
+  const rules: Record<AlertType, (index: number) => { value: number; severity: AlertSeverity | null }> = {
+    rain: index => {
+      const value = sumPrecipitation(hourly.precipitation, index);
+      return { value, severity: classify(value, thresholds.rain) };
+    },
+    gust: index => {
+      const value = hourly.windGusts[index];
+      return { value, severity: classify(value, thresholds.gust) };
+    },
+    heat: index => {
+      const value = calculateHeatIndex(hourly.temperature[index], hourly.humidity[index]);
+      return { value, severity: classify(value, thresholds.heat) };
+    },
+    freezing: index => {
+      const value = hourly.temperature[index];
+      return { value, severity: classify(value, thresholds.freezing, true) };
+    },
+    thunderstorm: index => {
+      const value = hourly.weatherCode[index];
+      return { value, severity: thresholds.thunderstorm[value] ?? null };
+    }
+  };
+
+  const alerts: WeatherAlert[] = [];
+
+  (Object.keys(rules) as AlertType[]).forEach(type => {
+    let found: WeatherAlert | null = null;
+
+    for (let index = start; index < end; index++) {
+      const { value, severity } = rules[type](index);
+      if (!severity || (found && compareSeverity(severity, found.severity) <= 0)) continue;
+
+      found = { type, severity, time: hourly.time[index], value };
+    }
+
+    if (found) alerts.push(found);
+  });
+
+  return alerts.sort((a, b) => compareSeverity(b.severity, a.severity) || a.time.localeCompare(b.time));
+}
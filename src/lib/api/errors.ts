@@ -0,0 +1,91 @@
+import { WeatherErrorCode } from '@/types';
+
+export type { WeatherErrorCode };
+
+const WEATHER_ERROR_CODES: WeatherErrorCode[] = [
+  'network',
+  'unavailable',
+  'badRequest',
+  'rateLimited',
+  'invalidResponse',
+  'unknownLocation'
+];
+
+/**
+ * 是否为已定义的错误类别，用于校验接口返回的 code
+ */
+export function isWeatherErrorCode(value: unknown): value is WeatherErrorCode {
+  return typeof value === 'string' && (WEATHER_ERROR_CODES as string[]).includes(value);
+}
+
+/**
+ * 天气接口请求失败，message 仅用于日志
+ */
+export class WeatherAPIError extends Error {
+  constructor(readonly code: WeatherErrorCode, message: string, readonly retryable = false) {
+    super(message);
+    this.name = 'WeatherAPIError';
+  }
+}
+
+/**
+ * 网络不可用或连接中断
+ */
+export class NetworkError extends WeatherAPIError {
+  constructor() {
+    super('network', 'Network request failed', true);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * 接口返回错误状态码，5xx 可重试；message 为接口返回的错误说明
+ */
+export class HttpError extends WeatherAPIError {
+  constructor(
+    readonly status: number,
+    message = `Request failed with status ${status}`,
+    retryable = status >= 500,
+    code: WeatherErrorCode = status >= 500 ? 'unavailable' : 'badRequest'
+  ) {
+    super(code, message, retryable);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * 请求被限流（429），retryAfter 为建议的重试等待秒数，未提供时为 null
+ */
+export class RateLimitError extends HttpError {
+  constructor(readonly retryAfter: number | null) {
+    super(429, 'Rate limit exceeded', true, 'rateLimited');
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * 响应内容不符合预期
+ */
+export class InvalidResponseError extends WeatherAPIError {
+  constructor() {
+    super('invalidResponse', 'Unexpected weather data format');
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * 找不到地点（城市名、区域编码等）
+ */
+export class UnknownLocationError extends WeatherAPIError {
+  constructor(readonly location: string) {
+    super('unknownLocation', `Unknown location: ${location}`);
+    this.name = 'UnknownLocationError';
+  }
+}
+
+/**
+ * 是否为请求被取消（AbortController）引起的错误
+ */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchWithRetry } from './http';
+import { HttpError, NetworkError, RateLimitError } from './errors';
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json', ...headers } });
+
+describe('fetchWithRetry', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('takes the error code from the response body', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => json({ code: 'badRequest', error: 'Invalid lat or lng parameter' }, 400)));
+
+    const error = await fetchWithRetry('/api/weather').catch(err => err);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.code).toBe('badRequest');
+    expect(error.message).toBe('Invalid lat or lng parameter');
+  });
+
+  it('classifies by status when the body has no valid code', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => json({ code: 'other' }, 502)));
+
+    const error = await fetchWithRetry('/api/weather', {}, { retries: 0 }).catch(err => err);
+    expect(error).toBeInstanceOf(HttpError);
+    expect(error.code).toBe('unavailable');
+  });
+
+  it('retries server errors and returns the later success', async () => {
+    const fetch = vi.fn()
+      .mockResolvedValueOnce(json({ code: 'unavailable', error: 'Upstream service unavailable' }, 503))
+      .mockResolvedValueOnce(json({ ok: true }));
+    vi.stubGlobal('fetch', fetch);
+
+    const response = await fetchWithRetry('/api/weather', {}, { baseDelay: 1 });
+    expect(await response.json()).toEqual({ ok: true });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up when the rate limit wait exceeds the maximum delay', async () => {
+    const fetch = vi.fn(async () => json({ code: 'rateLimited' }, 429, { 'Retry-After': '60' }));
+    vi.stubGlobal('fetch', fetch);
+
+    const error = await fetchWithRetry('/api/weather').catch(err => err);
+    expect(error).toBeInstanceOf(RateLimitError);
+    expect(error.code).toBe('rateLimited');
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports network failures as NetworkError', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      throw new TypeError('Failed to fetch');
+    }));
+
+    const error = await fetchWithRetry('/api/weather', {}, { retries: 0 }).catch(err => err);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.code).toBe('network');
+  });
+});
@@ -0,0 +1,100 @@
+import { HttpError, NetworkError, RateLimitError, WeatherAPIError, isAbortError, isWeatherErrorCode } from './errors';
+
+export interface RetryOptions {
+  /** 失败后最多重试的次数，默认 2 */
+  retries?: number;
+  /** 首次重试前的等待时间（毫秒），之后每次翻倍，默认 500 */
+  baseDelay?: number;
+  /** 单次等待的上限（毫秒），限流建议的等待超过该值时不再重试，默认 8000 */
+  maxDelay?: number;
+}
+
+/**
+ * 等待指定时间，signal 取消时立即以 AbortError 结束
+ */
+function wait(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * 解析 Retry-After 头（秒数形式）
+ */
+function parseRetryAfter(header: string | null): number | null {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) && seconds >= 0 ? seconds : null;
+}
+
+/**
+ * 发送一次请求，失败时转换为对应的错误类型
+ */
+async function fetchOnce(input: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(input, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError();
+  }
+
+  if (response.status === 429) {
+    throw new RateLimitError(parseRetryAfter(response.headers.get('Retry-After')));
+  }
+  if (!response.ok) {
+    // 本站接口的错误响应体为 { code, error }，未提供有效 code 时按状态码归类
+    const body = await response.json().catch(() => null) as { code?: unknown; error?: unknown } | null;
+    throw new HttpError(
+      response.status,
+      typeof body?.error === 'string' ? body.error : undefined,
+      undefined,
+      isWeatherErrorCode(body?.code) ? body.code : undefined
+    );
+  }
+  return response;
+}
+
+/**
+ * 请求本站接口，网络错误、5xx 和限流时按指数退避自动重试
+ *
+ * 请求被 init.signal 取消时（包括等待重试期间）直接抛出 AbortError，不再重试。
+ */
+export async function fetchWithRetry(
+  input: string,
+  init: RequestInit = {},
+  options: RetryOptions = {}
+): Promise<Response> {
+  const { retries = 2, baseDelay = 500, maxDelay = 8000 } = options;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fetchOnce(input, init);
+    } catch (error) {
+      if (!(error instanceof WeatherAPIError) || !error.retryable || attempt >= retries) throw error;
+
+      // 限流时按服务端建议等待，过久则放弃；其他错误指数退避并加入随机抖动
+      let delay: number;
+      if (error instanceof RateLimitError && error.retryAfter !== null) {
+        delay = error.retryAfter * 1000;
+        if (delay > maxDelay) throw error;
+      } else {
+        delay = Math.min(maxDelay, baseDelay * 2 ** attempt) * (0.5 + Math.random() / 2);
+      }
+
+      await wait(delay, init.signal);
+    }
+  }
+}
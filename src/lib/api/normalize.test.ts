@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { FORECAST_VARIABLES, WeatherDataError, normalizeForecast, parseWeatherData } from './normalize';
+
+/**
+ * 构造一个字段齐全的 Open-Meteo 预报响应
+ */
+function createRawForecast() {
+  const values = (variables: readonly string[], value: number) =>
+    Object.fromEntries(variables.map(variable => [variable, value]));
+  const series = (variables: readonly string[], length: number) =>
+    Object.fromEntries(variables.map(variable => [variable, Array.from({ length }, () => 1)]));
+
+  return {
+    timezone: 'Asia/Shanghai',
+    current_units: {
+      temperature_2m: '°C',
+      relative_humidity_2m: '%',
+      precipitation: 'mm',
+      wind_speed_10m: 'km/h',
+      wind_direction_10m: '°',
+      pressure_msl: 'hPa',
+      cloud_cover: '%'
+    },
+    current: { time: '2024-04-02T14:00', ...values(FORECAST_VARIABLES.current, 1) } as Record<string, unknown>,
+    hourly: {
+      time: ['2024-04-02T14:00', '2024-04-02T15:00'],
+      ...series(FORECAST_VARIABLES.hourly, 2)
+    } as Record<string, unknown>,
+    daily: { time: ['2024-04-02'], ...series(FORECAST_VARIABLES.daily, 1) }
+  };
+}
+
+describe('normalizeForecast', () => {
+  it('treats null current fields as missing values', () => {
+    const raw = createRawForecast();
+    raw.current.wind_gusts_10m = null;
+
+    const data = normalizeForecast(raw);
+    expect(data.current.windGusts).toBeNaN();
+    expect(data.current.temperature).toBe(1);
+  });
+
+  it('treats null series values as missing values', () => {
+    const raw = createRawForecast();
+    raw.hourly.temperature_2m = [null, 2];
+
+    const data = normalizeForecast(raw);
+    expect(data.hourly.temperature[0]).toBeNaN();
+    expect(data.hourly.temperature[1]).toBe(2);
+  });
+
+  it('rejects current fields of the wrong type', () => {
+    const raw = createRawForecast();
+    raw.current.temperature_2m = '20';
+
+    expect(() => normalizeForecast(raw)).toThrow(WeatherDataError);
+  });
+
+  it('round-trips through JSON with missing values restored as NaN', () => {
+    const raw = createRawForecast();
+    raw.current.wind_gusts_10m = null;
+
+    const data = parseWeatherData(JSON.parse(JSON.stringify(normalizeForecast(raw))));
+    expect(data.current.windGusts).toBeNaN();
+  });
+});
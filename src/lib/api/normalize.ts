@@ -0,0 +1,315 @@
+import {
+  WeatherData,
+  WeatherUnits,
+  CurrentWeather,
+  HourlyForecast,
+  DailyForecast,
+  SearchResult
+} from '@/types';
+
+/**
+ * 向 Open-Meteo 请求的变量，normalizeForecast 依赖这些字段全部存在
+ */
+export const FORECAST_VARIABLES = {
+  current: [
+    'temperature_2m',
+    'apparent_temperature',
+    'relative_humidity_2m',
+    'precipitation',
+    'weather_code',
+    'cloud_cover',
+    'pressure_msl',
+    'wind_speed_10m',
+    'wind_direction_10m',
+    'wind_gusts_10m',
+    'is_day'
+  ],
+  hourly: [
+    'temperature_2m',
+    'apparent_temperature',
+    'relative_humidity_2m',
+    'precipitation',
+    'precipitation_probability',
+    'weather_code',
+    'wind_speed_10m',
+    'wind_gusts_10m',
+    'is_day'
+  ],
+  daily: ['temperature_2m_max', 'temperature_2m_min', 'weather_code', 'precipitation_sum']
+} as const;
+
+/**
+ * 天气响应格式不符合预期
+ */
+export class WeatherDataError extends Error {
+  constructor(path: string, expected: string) {
+    super(`Invalid weather response: ${path} should be ${expected}`);
+    this.name = 'WeatherDataError';
+  }
+}
+
+type RawObject = Record<string, unknown>;
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readObject(source: RawObject, key: string, path: string): RawObject {
+  const value = source[key];
+  if (!isObject(value)) throw new WeatherDataError(`${path}.${key}`, 'an object');
+  return value;
+}
+
+function readNumber(source: RawObject, key: string, path: string): number {
+  const value = source[key];
+  if (typeof value !== 'number' || Number.isNaN(value)) {
+    throw new WeatherDataError(`${path}.${key}`, 'a number');
+  }
+  return value;
+}
+
+/**
+ * 读取单个数值，null 表示缺测（Open-Meteo 的缺测值或序列化后的 NaN），统一转为 NaN
+ */
+function readNullableNumber(source: RawObject, key: string, path: string): number {
+  return source[key] === null ? NaN : readNumber(source, key, path);
+}
+
+function readString(source: RawObject, key: string, path: string): string {
+  const value = source[key];
+  if (typeof value !== 'string') throw new WeatherDataError(`${path}.${key}`, 'a string');
+  return value;
+}
+
+function readStringArray(source: RawObject, key: string, path: string): string[] {
+  const value = source[key];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new WeatherDataError(`${path}.${key}`, 'an array of strings');
+  }
+  return value as string[];
+}
+
+/**
+ * 读取数值序列，Open-Meteo 以 null 表示缺测，统一转为 NaN
+ */
+function readSeries(source: RawObject, key: string, path: string, length: number): number[] {
+  const value = source[key];
+  if (!Array.isArray(value) || value.length !== length) {
+    throw new WeatherDataError(`${path}.${key}`, `an array of ${length} values`);
+  }
+
+  return value.map((item, index) => {
+    if (item === null) return NaN;
+    if (typeof item !== 'number') throw new WeatherDataError(`${path}.${key}[${index}]`, 'a number or null');
+    return item;
+  });
+}
+
+function normalizeUnits(raw: RawObject): WeatherUnits {
+  const units = readObject(raw, 'current_units', 'response');
+  const unit = (key: string) => readString(units, key, 'response.current_units');
+
+  return {
+    temperature: unit('temperature_2m'),
+    humidity: unit('relative_humidity_2m'),
+    precipitation: unit('precipitation'),
+    windSpeed: unit('wind_speed_10m'),
+    windDirection: unit('wind_direction_10m'),
+    pressure: unit('pressure_msl'),
+    cloudCover: unit('cloud_cover')
+  };
+}
+
+function normalizeCurrent(raw: RawObject): CurrentWeather {
+  const current = readObject(raw, 'current', 'response');
+  const path = 'response.current';
+  // 个别字段（如阵风）可能缺测，不应导致整个预报无效
+  const number = (key: string) => readNullableNumber(current, key, path);
+
+  return {
+    time: readString(current, 'time', path),
+    temperature: number('temperature_2m'),
+    apparentTemperature: number('apparent_temperature'),
+    humidity: number('relative_humidity_2m'),
+    precipitation: number('precipitation'),
+    weatherCode: number('weather_code'),
+    cloudCover: number('cloud_cover'),
+    pressure: number('pressure_msl'),
+    windSpeed: number('wind_speed_10m'),
+    windDirection: number('wind_direction_10m'),
+    windGusts: number('wind_gusts_10m'),
+    isDay: number('is_day') === 1
+  };
+}
+
+function normalizeHourly(raw: RawObject): HourlyForecast {
+  const hourly = readObject(raw, 'hourly', 'response');
+  const path = 'response.hourly';
+  const time = readStringArray(hourly, 'time', path);
+  const series = (key: string) => readSeries(hourly, key, path, time.length);
+
+  return {
+    time,
+    temperature: series('temperature_2m'),
+    apparentTemperature: series('apparent_temperature'),
+    humidity: series('relative_humidity_2m'),
+    precipitation: series('precipitation'),
+    precipitationProbability: series('precipitation_probability'),
+    weatherCode: series('weather_code'),
+    windSpeed: series('wind_speed_10m'),
+    windGusts: series('wind_gusts_10m'),
+    isDay: series('is_day').map(value => value === 1)
+  };
+}
+
+function normalizeDaily(raw: RawObject): DailyForecast {
+  const daily = readObject(raw, 'daily', 'response');
+  const path = 'response.daily';
+  const time = readStringArray(daily, 'time', path);
+  const series = (key: string) => readSeries(daily, key, path, time.length);
+
+  return {
+    time,
+    temperatureMax: series('temperature_2m_max'),
+    temperatureMin: series('temperature_2m_min'),
+    weatherCode: series('weather_code'),
+    precipitationSum: series('precipitation_sum')
+  };
+}
+
+/**
+ * 将 Open-Meteo 预报响应校验并转换为领域模型
+ */
+export function normalizeForecast(raw: unknown): WeatherData {
+  if (!isObject(raw)) throw new WeatherDataError('response', 'an object');
+
+  return {
+    timezone: readString(raw, 'timezone', 'response'),
+    units: normalizeUnits(raw),
+    current: normalizeCurrent(raw),
+    hourly: normalizeHourly(raw),
+    daily: normalizeDaily(raw)
+  };
+}
+
+/**
+ * 读取布尔序列
+ */
+function readBooleanSeries(source: RawObject, key: string, path: string, length: number): boolean[] {
+  const value = source[key];
+  if (!Array.isArray(value) || value.length !== length || value.some(item => typeof item !== 'boolean')) {
+    throw new WeatherDataError(`${path}.${key}`, `an array of ${length} booleans`);
+  }
+  return value as boolean[];
+}
+
+/**
+ * 校验本站天气接口返回的领域模型
+ *
+ * 领域模型中的 NaN 经 JSON 序列化后变为 null，这里恢复为 NaN。
+ */
+export function parseWeatherData(raw: unknown): WeatherData {
+  if (!isObject(raw)) throw new WeatherDataError('data', 'an object');
+
+  const unitsRaw = readObject(raw, 'units', 'data');
+  const currentRaw = readObject(raw, 'current', 'data');
+  const hourlyRaw = readObject(raw, 'hourly', 'data');
+  const dailyRaw = readObject(raw, 'daily', 'data');
+
+  const unit = (key: keyof WeatherUnits) => readString(unitsRaw, key, 'data.units');
+  const current = (key: keyof CurrentWeather) => readNullableNumber(currentRaw, key, 'data.current');
+  const hourlyTime = readStringArray(hourlyRaw, 'time', 'data.hourly');
+  const hourly = (key: keyof HourlyForecast) => readSeries(hourlyRaw, key, 'data.hourly', hourlyTime.length);
+  const dailyTime = readStringArray(dailyRaw, 'time', 'data.daily');
+  const daily = (key: keyof DailyForecast) => readSeries(dailyRaw, key, 'data.daily', dailyTime.length);
+
+  if (typeof currentRaw.isDay !== 'boolean') throw new WeatherDataError('data.current.isDay', 'a boolean');
+
+  let location: WeatherData['location'];
+  if (raw.location !== undefined) {
+    const locationRaw = readObject(raw, 'location', 'data');
+    location = {
+      name: readString(locationRaw, 'name', 'data.location'),
+      latitude: readNumber(locationRaw, 'latitude', 'data.location'),
+      longitude: readNumber(locationRaw, 'longitude', 'data.location')
+    };
+  }
+
+  return {
+    ...(location && { location }),
+    timezone: readString(raw, 'timezone', 'data'),
+    units: {
+      temperature: unit('temperature'),
+      humidity: unit('humidity'),
+      precipitation: unit('precipitation'),
+      windSpeed: unit('windSpeed'),
+      windDirection: unit('windDirection'),
+      pressure: unit('pressure'),
+      cloudCover: unit('cloudCover')
+    },
+    current: {
+      time: readString(currentRaw, 'time', 'data.current'),
+      temperature: current('temperature'),
+      apparentTemperature: current('apparentTemperature'),
+      humidity: current('humidity'),
+      precipitation: current('precipitation'),
+      weatherCode: current('weatherCode'),
+      cloudCover: current('cloudCover'),
+      pressure: current('pressure'),
+      windSpeed: current('windSpeed'),
+      windDirection: current('windDirection'),
+      windGusts: current('windGusts'),
+      isDay: currentRaw.isDay
+    },
+    hourly: {
+      time: hourlyTime,
+      temperature: hourly('temperature'),
+      apparentTemperature: hourly('apparentTemperature'),
+      humidity: hourly('humidity'),
+      precipitation: hourly('precipitation'),
+      precipitationProbability: hourly('precipitationProbability'),
+      weatherCode: hourly('weatherCode'),
+      windSpeed: hourly('windSpeed'),
+      windGusts: hourly('windGusts'),
+      isDay: readBooleanSeries(hourlyRaw, 'isDay', 'data.hourly', hourlyTime.length)
+    },
+    daily: {
+      time: dailyTime,
+      temperatureMax: daily('temperatureMax'),
+      temperatureMin: daily('temperatureMin'),
+      weatherCode: daily('weatherCode'),
+      precipitationSum: daily('precipitationSum')
+    }
+  };
+}
+
+/**
+ * 校验地理编码结果列表，缺少名称或坐标的条目直接丢弃
+ *
+ * Open-Meteo 地理编码响应与本站 /api/geocode 的响应都是 { results: [...] } 结构，共用此函数。
+ */
+export function normalizeGeocodingResults(raw: unknown): SearchResult[] {
+  if (!isObject(raw)) throw new WeatherDataError('response', 'an object');
+  // 无匹配结果时 Open-Meteo 省略 results 字段
+  if (raw.results === undefined) return [];
+  if (!Array.isArray(raw.results)) throw new WeatherDataError('response.results', 'an array');
+
+  const optionalString = (item: RawObject, key: string) =>
+    typeof item[key] === 'string' ? item[key] as string : undefined;
+
+  return raw.results.flatMap((item): SearchResult[] => {
+    if (!isObject(item)) return [];
+    const { name, latitude, longitude } = item;
+    if (typeof name !== 'string' || typeof latitude !== 'number' || typeof longitude !== 'number') return [];
+
+    return [{
+      name,
+      latitude,
+      longitude,
+      country: optionalString(item, 'country') ?? '',
+      countryCode: optionalString(item, 'country_code') ?? optionalString(item, 'countryCode'),
+      admin1: optionalString(item, 'admin1'),
+      admin2: optionalString(item, 'admin2')
+    }];
+  });
+}
@@ -0,0 +1,183 @@
+import { describe, expect, it, vi } from 'vitest';
+import { CacheEntry, PersistentCacheTier, WeatherCache, createLocalStorageTier } from './weather-cache';
+
+/**
+ * 内存中的持久化层，记录读写便于断言
+ */
+function createMemoryTier(): PersistentCacheTier & { entries: Map<string, CacheEntry<unknown>> } {
+  const entries = new Map<string, CacheEntry<unknown>>();
+  return {
+    entries,
+    async read<T>(key: string) {
+      return (entries.get(key) as CacheEntry<T> | undefined) ?? null;
+    },
+    async write<T>(key: string, entry: CacheEntry<T>) {
+      entries.set(key, entry);
+    },
+    async remove(key: string) {
+      entries.delete(key);
+    },
+    async prune(before: number) {
+      entries.forEach((entry, key) => {
+        if (entry.expiresAt <= before) entries.delete(key);
+      });
+    }
+  };
+}
+
+/**
+ * 基于 Map 的 Storage，用于测试 localStorage 持久化层
+ */
+function createMemoryStorage(): Storage {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    key: index => [...items.keys()][index] ?? null,
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+    clear: () => items.clear()
+  };
+}
+
+describe('WeatherCache', () => {
+  it('expires entries after the ttl using the injected clock', async () => {
+    let now = 0;
+    const cache = new WeatherCache<string>({ ttl: 1000, alignToInterval: false, now: () => now });
+
+    await cache.set('key', 'value');
+    now = 999;
+    expect(await cache.peek('key')).toBe('value');
+
+    now = 1000;
+    expect(await cache.peek('key')).toBeUndefined();
+  });
+
+  it('aligns expiry to the next interval boundary', async () => {
+    let now = 1500;
+    const cache = new WeatherCache<string>({ ttl: 1000, now: () => now });
+
+    await cache.set('key', 'value');
+    now = 1999;
+    expect(await cache.peek('key')).toBe('value');
+
+    now = 2000;
+    expect(await cache.peek('key')).toBeUndefined();
+  });
+
+  it('shares one in-flight load between concurrent callers', async () => {
+    const cache = new WeatherCache<string>();
+    let resolve: (value: string) => void = () => undefined;
+    const loader = vi.fn(() => new Promise<string>(done => {
+      resolve = done;
+    }));
+
+    const first = cache.get('key', loader);
+    const second = cache.get('key', loader);
+    // 加载器在读取缓存之后才调用
+    await vi.waitFor(() => expect(loader).toHaveBeenCalled());
+    resolve('value');
+
+    expect(await Promise.all([first, second])).toEqual(['value', 'value']);
+    expect(loader).toHaveBeenCalledTimes(1);
+
+    // 完成后从缓存读取，不再加载
+    expect(await cache.get('key', loader)).toBe('value');
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failed loads', async () => {
+    const cache = new WeatherCache<string>();
+    const loader = vi.fn()
+      .mockRejectedValueOnce(new Error('failed'))
+      .mockResolvedValueOnce('value');
+
+    await expect(cache.get('key', loader)).rejects.toThrow('failed');
+    expect(await cache.get('key', loader)).toBe('value');
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('falls back to the persistent tier when memory misses', async () => {
+    const now = 0;
+    const persistent = createMemoryTier();
+    const writer = new WeatherCache<string>({ ttl: 1000, now: () => now, persistent });
+    await writer.set('key', 'value');
+
+    // 模拟页面刷新：新的实例内存为空
+    const reader = new WeatherCache<string>({ ttl: 1000, now: () => now, persistent });
+    const loader = vi.fn(async () => 'fresh');
+    expect(await reader.get('key', loader)).toBe('value');
+    expect(loader).not.toHaveBeenCalled();
+  });
+
+  it('removes expired persistent entries when read', async () => {
+    let now = 0;
+    const persistent = createMemoryTier();
+    const cache = new WeatherCache<string>({ ttl: 1000, now: () => now, persistent });
+    await cache.set('key', 'value');
+    cache.clear();
+
+    now = 1000;
+    expect(await cache.peek('key')).toBeUndefined();
+    expect(persistent.entries.has('key')).toBe(false);
+  });
+
+  it('keeps expired entries readable as stale within the retention period', async () => {
+    let now = 0;
+    const persistent = createMemoryTier();
+    const cache = new WeatherCache<string>({ ttl: 1000, now: () => now, persistent, retainStale: 5000 });
+    await cache.set('key', 'value');
+    cache.clear();
+
+    now = 3000;
+    expect(await cache.peek('key')).toBeUndefined();
+    expect((await cache.peekStale('key'))?.value).toBe('value');
+
+    now = 6000;
+    expect(await cache.peekStale('key')).toBeUndefined();
+  });
+
+  it('prunes expired persistent entries on write', async () => {
+    let now = 0;
+    const persistent = createMemoryTier();
+    const cache = new WeatherCache<string>({ ttl: 1000, now: () => now, persistent });
+    await cache.set('old', 'value');
+
+    now = 1000;
+    await cache.set('new', 'value');
+    expect([...persistent.entries.keys()]).toEqual(['new']);
+  });
+
+  it('evicts the least recently used entries beyond maxEntries', async () => {
+    const cache = new WeatherCache<string>({ maxEntries: 2 });
+    await cache.set('a', 'a');
+    await cache.set('b', 'b');
+    await cache.peek('a');
+    await cache.set('c', 'c');
+
+    expect(await cache.peek('a')).toBe('a');
+    expect(await cache.peek('b')).toBeUndefined();
+    expect(await cache.peek('c')).toBe('c');
+  });
+});
+
+describe('createLocalStorageTier', () => {
+  it('prunes only expired cache entries', async () => {
+    const storage = createMemoryStorage();
+    storage.setItem('other', 'kept');
+    const tier = createLocalStorageTier(storage);
+    await tier.write('old', { value: 1, storedAt: 0, expiresAt: 1000 });
+    await tier.write('new', { value: 2, storedAt: 0, expiresAt: 3000 });
+
+    await tier.prune(2000);
+    expect(await tier.read('old')).toBeNull();
+    expect((await tier.read('new'))?.value).toBe(2);
+    expect(storage.getItem('other')).toBe('kept');
+  });
+});
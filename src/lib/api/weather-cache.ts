@@ -0,0 +1,345 @@
+import { Coordinates } from '@/types';
+
+/**
+ * 缓存条目
+ */
+export interface CacheEntry<T> {
+  value: T;
+  /** 写入时间（毫秒时间戳） */
+  storedAt: number;
+  /** 过期时间（毫秒时间戳） */
+  expiresAt: number;
+}
+
+/**
+ * 持久化缓存层（IndexedDB、localStorage 等）
+ */
+export interface PersistentCacheTier {
+  read<T>(key: string): Promise<CacheEntry<T> | null>;
+  write<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  remove(key: string): Promise<void>;
+  /** 删除过期时间不晚于 before 的全部条目 */
+  prune(before: number): Promise<void>;
+}
+
+export interface WeatherCacheOptions {
+  /** 缓存有效期（毫秒），默认与 Open-Meteo 15 分钟的更新间隔一致 */
+  ttl?: number;
+  /** 为 true 时过期时间对齐到下一个更新周期边界，而非写入后固定时长 */
+  alignToInterval?: boolean;
+  /** 坐标取整的小数位数，默认 2 位（约 1 公里） */
+  precision?: number;
+  /** 键前缀，数据结构变化时更换以避开旧的持久化条目 */
+  namespace?: string;
+  /** 时钟，便于测试时注入 */
+  now?: () => number;
+  /** 可选的持久化层，页面刷新后仍可命中 */
+  persistent?: PersistentCacheTier | null;
+  /** 过期后继续保留的时长（毫秒），期间可通过 peekStale 读取作为离线时的最近数据，默认不保留 */
+  retainStale?: number;
+  /** 内存中最多保留的条目数，超出时先清理过期条目，再淘汰最久未使用的条目，默认不限制 */
+  maxEntries?: number;
+}
+
+// Open-Meteo 当前天气每 15 分钟更新一次
+export const DEFAULT_CACHE_TTL = 15 * 60 * 1000;
+
+/**
+ * 天气数据缓存
+ *
+ * 以取整后的坐标和请求变量作为键，支持内存与持久化两级缓存，
+ * 并合并同一键上正在进行中的请求。
+ */
+export class WeatherCache<T = unknown> {
+  private readonly ttl: number;
+  private readonly alignToInterval: boolean;
+  private readonly precision: number;
+  private readonly namespace: string;
+  private readonly now: () => number;
+  private readonly persistent: PersistentCacheTier | null;
+  private readonly retainStale: number;
+  private readonly maxEntries: number;
+  private readonly memory = new Map<string, CacheEntry<T>>();
+  private readonly inflight = new Map<string, Promise<T>>();
+  private lastPrunedAt = -Infinity;
+
+  constructor(options: WeatherCacheOptions = {}) {
+    this.ttl = options.ttl ?? DEFAULT_CACHE_TTL;
+    this.alignToInterval = options.alignToInterval ?? true;
+    this.precision = options.precision ?? 2;
+    this.namespace = options.namespace ?? 'default';
+    this.now = options.now ?? Date.now;
+    this.persistent = options.persistent ?? null;
+    this.retainStale = options.retainStale ?? 0;
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
+
+  /**
+   * 过期条目是否仍在保留期内
+   */
+  private isRetained(entry: CacheEntry<T>, now: number): boolean {
+    return entry.expiresAt + this.retainStale > now;
+  }
+
+  /**
+   * 写入内存缓存并标记为最近使用，超出容量时清理
+   */
+  private remember(key: string, entry: CacheEntry<T>): void {
+    // Map 按插入顺序遍历，重新插入即移到末尾
+    this.memory.delete(key);
+    this.memory.set(key, entry);
+    if (this.memory.size <= this.maxEntries) return;
+
+    const now = this.now();
+    for (const [staleKey, staleEntry] of this.memory) {
+      if (staleEntry.expiresAt <= now && !this.isRetained(staleEntry, now)) this.memory.delete(staleKey);
+    }
+
+    for (const oldestKey of this.memory.keys()) {
+      if (this.memory.size <= this.maxEntries) break;
+      this.memory.delete(oldestKey);
+    }
+  }
+
+  /**
+   * 按缓存精度取整坐标，同一键下请求的坐标保持一致
+   */
+  roundCoordinates(coordinates: Coordinates): Coordinates {
+    return {
+      lat: Number(coordinates.lat.toFixed(this.precision)),
+      lng: Number(coordinates.lng.toFixed(this.precision))
+    };
+  }
+
+  /**
+   * 生成缓存键
+   */
+  createKey(coordinates: Coordinates, variables: string[]): string {
+    const lat = coordinates.lat.toFixed(this.precision);
+    const lng = coordinates.lng.toFixed(this.precision);
+    return `${this.namespace}|${lat},${lng}|${[...variables].sort().join(',')}`;
+  }
+
+  /**
+   * 读取缓存，未命中或已过期时调用 loader 加载并写入缓存
+   */
+  get(key: string, loader: () => Promise<T>): Promise<T> {
+    // 先同步登记进行中的请求，保证并发调用只触发一次加载
+    const pending = this.inflight.get(key);
+    if (pending) return pending;
+
+    const request = (async () => {
+      const cached = await this.peek(key);
+      if (cached !== undefined) return cached;
+
+      const value = await loader();
+      await this.set(key, value);
+      return value;
+    })().finally(() => {
+      this.inflight.delete(key);
+    });
+
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  /**
+   * 仅读取未过期的缓存值，不触发加载
+   */
+  async peek(key: string): Promise<T | undefined> {
+    const now = this.now();
+    const memoryEntry = this.memory.get(key);
+
+    if (memoryEntry) {
+      if (memoryEntry.expiresAt > now) {
+        this.remember(key, memoryEntry);
+        return memoryEntry.value;
+      }
+      if (!this.isRetained(memoryEntry, now)) this.memory.delete(key);
+    }
+
+    if (!this.persistent) return undefined;
+
+    try {
+      const entry = await this.persistent.read<T>(key);
+      if (!entry) return undefined;
+
+      if (entry.expiresAt > now) {
+        this.remember(key, entry);
+        return entry.value;
+      }
+
+      if (!this.isRetained(entry, now)) await this.persistent.remove(key);
+    } catch (error) {
+      console.warn('Failed to read persistent weather cache:', error);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 读取条目，过期但仍在保留期内的也返回，用于无法加载新数据时的回退
+   */
+  async peekStale(key: string): Promise<CacheEntry<T> | undefined> {
+    const now = this.now();
+    const memoryEntry = this.memory.get(key);
+    if (memoryEntry && this.isRetained(memoryEntry, now)) return memoryEntry;
+
+    if (!this.persistent) return undefined;
+
+    try {
+      const entry = await this.persistent.read<T>(key);
+      if (entry && this.isRetained(entry, now)) {
+        this.remember(key, entry);
+        return entry;
+      }
+    } catch (error) {
+      console.warn('Failed to read persistent weather cache:', error);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * 写入缓存
+   */
+  async set(key: string, value: T): Promise<void> {
+    const storedAt = this.now();
+    const expiresAt = this.alignToInterval
+      ? (Math.floor(storedAt / this.ttl) + 1) * this.ttl
+      : storedAt + this.ttl;
+    const entry: CacheEntry<T> = { value, storedAt, expiresAt };
+
+    this.remember(key, entry);
+
+    if (!this.persistent) return;
+
+    try {
+      await this.persistent.write(key, entry);
+      // 过期条目只在再次读取同一键时删除，每个有效期内清理一次其余的过期条目
+      if (storedAt - this.lastPrunedAt >= this.ttl) {
+        this.lastPrunedAt = storedAt;
+        await this.persistent.prune(storedAt - this.retainStale);
+      }
+    } catch (error) {
+      console.warn('Failed to write persistent weather cache:', error);
+    }
+  }
+
+  /**
+   * 清空内存缓存
+   */
+  clear(): void {
+    this.memory.clear();
+    this.inflight.clear();
+  }
+}
+
+const STORAGE_PREFIX = 'weather-cache:';
+
+/**
+ * 基于 localStorage 的持久化层
+ */
+export function createLocalStorageTier(storage: Storage = window.localStorage): PersistentCacheTier {
+  return {
+    async read<T>(key: string) {
+      const raw = storage.getItem(STORAGE_PREFIX + key);
+      return raw ? (JSON.parse(raw) as CacheEntry<T>) : null;
+    },
+    async write<T>(key: string, entry: CacheEntry<T>) {
+      storage.setItem(STORAGE_PREFIX + key, JSON.stringify(entry));
+    },
+    async remove(key: string) {
+      storage.removeItem(STORAGE_PREFIX + key);
+    },
+    async prune(before: number) {
+      const keys: string[] = [];
+      for (let index = 0; index < storage.length; index++) {
+        const key = storage.key(index);
+        if (key?.startsWith(STORAGE_PREFIX)) keys.push(key);
+      }
+
+      keys.forEach(key => {
+        try {
+          const entry = JSON.parse(storage.getItem(key) ?? 'null') as CacheEntry<unknown> | null;
+          if (entry && entry.expiresAt > before) return;
+        } catch {
+          // 无法解析的条目直接删除
+        }
+        storage.removeItem(key);
+      });
+    }
+  };
+}
+
+const IDB_NAME = 'weather-map-app';
+const IDB_STORE = 'weather-cache';
+
+/**
+ * 基于 IndexedDB 的持久化层，容量大于 localStorage
+ */
+export function createIndexedDBTier(factory: IDBFactory = window.indexedDB): PersistentCacheTier {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+      database = new Promise((resolve, reject) => {
+        const request = factory.open(IDB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(IDB_STORE);
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      });
+    }
+    return database;
+  };
+
+  const run = async <R>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<R>): Promise<R> => {
+    const db = await open();
+    return new Promise((resolve, reject) => {
+      const request = action(db.transaction(IDB_STORE, mode).objectStore(IDB_STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    async read<T>(key: string) {
+      const entry = await run<CacheEntry<T> | undefined>('readonly', store => store.get(key));
+      return entry ?? null;
+    },
+    async write<T>(key: string, entry: CacheEntry<T>) {
+      await run('readwrite', store => store.put(entry, key));
+    },
+    async remove(key: string) {
+      await run('readwrite', store => store.delete(key));
+    },
+    async prune(before: number) {
+      const db = await open();
+      await new Promise<void>((resolve, reject) => {
+        const transaction = db.transaction(IDB_STORE, 'readwrite');
+        const request = transaction.objectStore(IDB_STORE).openCursor();
+        request.onsuccess = () => {
+          const cursor = request.result;
+          if (!cursor) return;
+          const entry = cursor.value as CacheEntry<unknown> | undefined;
+          if (!entry || !(entry.expiresAt > before)) cursor.delete();
+          cursor.continue();
+        };
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+      });
+    }
+  };
+}
+
+/**
+ * 根据运行环境选择持久化层：优先 IndexedDB，其次 localStorage，服务端不持久化
+ */
+export function createDefaultPersistentTier(): PersistentCacheTier | null {
+  if (typeof window === 'undefined') return null;
+  if (window.indexedDB) return createIndexedDBTier();
+  if (window.localStorage) return createLocalStorageTier();
+  return null;
+}
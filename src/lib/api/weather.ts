@@ -1,104 +1,249 @@
-import { WeatherData, Coordinates } from '@/types';
+import { WeatherData, Coordinates, BatchWeatherResult, SearchResult } from '@/types';
+import { WeatherCache, createDefaultPersistentTier } from './weather-cache';
+import { FORECAST_VARIABLES, normalizeGeocodingResults, parseWeatherData } from './normalize';
+import {
+  InvalidResponseError,
+  UnknownLocationError,
+  WeatherAPIError,
+  WeatherErrorCode,
+  isAbortError,
+  isWeatherErrorCode
+} from './errors';
+import { fetchWithRetry } from './http';
+import { findRegionLayerByName } from '@/lib/regions';
+import {
+  PrecipitationUnit,
+  TemperatureUnit,
+  UNIT_SYMBOLS,
+  WindSpeedUnit,
+  convertPrecipitation,
+  convertTemperature,
+  convertWindSpeed
+} from '@/lib/units';
+
+// 本站接口地址，上游请求、限流和服务端缓存都在接口中处理
+const WEATHER_ENDPOINT = '/api/weather';
+const BATCH_WEATHER_ENDPOINT = '/api/weather/batch';
+const GEOCODE_ENDPOINT = '/api/geocode';
+
+// 离线时最近数据的保留时长，超过后预报已基本失去参考价值
+const LAST_KNOWN_RETENTION = 7 * 24 * 60 * 60 * 1000;
+
+// 缓存键使用的变量集合
+const CACHE_VARIABLES = Object.entries(FORECAST_VARIABLES).flatMap(([block, variables]) =>
+  variables.map(variable => `${block}.${variable}`)
+);
+
+/**
+ * 全局共享的天气数据缓存
+ */
+export const weatherCache = new WeatherCache<WeatherData>({
+  namespace: 'forecast-v2',
+  persistent: createDefaultPersistentTier(),
+  retainStale: LAST_KNOWN_RETENTION
+});
+
+/**
+ * 读取最近一次成功获取的数据，标记获取时间；没有时返回 undefined
+ */
+async function getLastKnownWeather(key: string): Promise<WeatherData | undefined> {
+  const entry = await weatherCache.peekStale(key);
+  return entry && { ...entry.value, staleSince: entry.storedAt };
+}
+
+/**
+ * 请求选项
+ */
+export interface RequestOptions {
+  /** 取消请求，取消后以 AbortError 结束 */
+  signal?: AbortSignal;
+}
 
-const OPEN_METEO_BASE_URL = 'https://api.open-meteo.com/v1/forecast';
 
 export class WeatherAPI {
   /**
    * 获取指定坐标的天气数据
+   *
+   * 请求失败（如离线）时回退到最近一次成功获取的数据，并以 staleSince 标记获取时间。
+   * 同一位置的并发请求共用一次加载，发起加载的调用被取消时，未取消的调用会重新发起请求。
    */
-  static async getWeatherData(coordinates: Coordinates): Promise<WeatherData> {
-    const { lat, lng } = coordinates;
-    
-    const params = new URLSearchParams({
-      latitude: lat.toString(),
-      longitude: lng.toString(),
-      current: 'temperature_2m,relative_humidity_2m,wind_speed_10m,wind_direction_10m,weather_code',
-      daily: 'temperature_2m_max,temperature_2m_min,weather_code,precipitation_sum',
-      timezone: 'Asia/Shanghai',
-      forecast_days: '7'
-    });
-
+  static async getWeatherData(coordinates: Coordinates, options: RequestOptions = {}): Promise<WeatherData> {
+    const key = weatherCache.createKey(coordinates, CACHE_VARIABLES);
     try {
-      const response = await fetch(`${OPEN_METEO_BASE_URL}?${params}`);
-      
-      if (!response.ok) {
-        throw new Error(`Weather API error: ${response.status}`);
+      return await weatherCache.get(key, () => this.fetchWeatherData(coordinates, options.signal));
+    } catch (error) {
+      if (isAbortError(error)) {
+        if (options.signal?.aborted) throw error;
+        // 共用的加载被其他调用取消，此时进行中的请求已移除
+        return this.getWeatherData(coordinates, options);
       }
+      const lastKnown = await getLastKnownWeather(key);
+      if (lastKnown) return lastKnown;
+      throw error;
+    }
+  }
+
+  /**
+   * 直接请求天气数据（不经过缓存）
+   */
+  private static async fetchWeatherData(coordinates: Coordinates, signal?: AbortSignal): Promise<WeatherData> {
+    const params = new URLSearchParams({ lat: String(coordinates.lat), lng: String(coordinates.lng) });
+    const response = await fetchWithRetry(`${WEATHER_ENDPOINT}?${params}`, { signal });
 
-      const data = await response.json();
-      return data as WeatherData;
+    try {
+      return parseWeatherData(await response.json());
     } catch (error) {
-      console.error('Failed to fetch weather data:', error);
-      throw new Error('无法获取天气数据，请稍后重试');
+      if (isAbortError(error)) throw error;
+      console.error('Invalid weather data:', error);
+      throw new InvalidResponseError();
     }
   }
 
   /**
    * 批量获取多个位置的天气数据
+   *
+   * 结果按输入顺序逐一返回成功或失败，已缓存的位置不会重复请求，
+   * 请求失败的位置回退到最近一次成功获取的数据；
+   * 分块、失败隔离和服务端缓存由 /api/weather/batch 处理。取消时整体以 AbortError 结束。
    */
-  static async getBatchWeatherData(locations: Coordinates[]): Promise<WeatherData[]> {
-    const promises = locations.map(coord => this.getWeatherData(coord));
-    
+  static async getBatchWeatherData(
+    locations: Coordinates[],
+    options: RequestOptions = {}
+  ): Promise<BatchWeatherResult[]> {
+    const keys = locations.map(coordinates => weatherCache.createKey(coordinates, CACHE_VARIABLES));
+    const cached = await Promise.all(keys.map(key => weatherCache.peek(key)));
+
+    const results: (BatchWeatherResult | undefined)[] = cached.map((data, index) =>
+      data ? { coordinates: locations[index], ok: true, data } : undefined
+    );
+    const missing = locations
+      .map((coordinates, index) => ({ coordinates, index }))
+      .filter(({ index }) => !results[index]);
+
+    if (missing.length > 0) {
+      const fetched = await this.fetchBatch(missing.map(item => item.coordinates), options.signal);
+      await Promise.all(
+        fetched.map((result, position) => {
+          const { index } = missing[position];
+          results[index] = result;
+          if (result.ok) return weatherCache.set(keys[index], result.data);
+
+          return getLastKnownWeather(keys[index]).then(lastKnown => {
+            if (lastKnown) results[index] = { coordinates: result.coordinates, ok: true, data: lastKnown };
+          });
+        })
+      );
+    }
+
+    return results as BatchWeatherResult[];
+  }
+
+  /**
+   * 请求一组坐标的天气数据，请求整体失败时每个位置都记为失败
+   */
+  private static async fetchBatch(locations: Coordinates[], signal?: AbortSignal): Promise<BatchWeatherResult[]> {
+    const fail = (error: WeatherErrorCode) => locations.map(coordinates => ({ coordinates, ok: false as const, error }));
+
     try {
-      return await Promise.all(promises);
+      const response = await fetchWithRetry(BATCH_WEATHER_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ locations }),
+        signal
+      });
+
+      const items: unknown = await response.json();
+      if (!Array.isArray(items) || items.length !== locations.length) {
+        console.error('Batch weather response does not match the request');
+        throw new InvalidResponseError();
+      }
+
+      return locations.map((coordinates, index): BatchWeatherResult => {
+        const item = items[index] as { ok?: unknown; data?: unknown; error?: unknown } | null;
+        if (!item?.ok) {
+          return {
+            coordinates,
+            ok: false,
+            error: isWeatherErrorCode(item?.error) ? item.error : 'unavailable'
+          };
+        }
+        try {
+          return { coordinates, ok: true, data: parseWeatherData(item.data) };
+        } catch (error) {
+          console.error('Invalid weather data in batch response:', error);
+          return { coordinates, ok: false, error: 'invalidResponse' };
+        }
+      });
     } catch (error) {
+      if (isAbortError(error)) throw error;
       console.error('Failed to fetch batch weather data:', error);
-      throw error;
+      return fail(error instanceof WeatherAPIError ? error.code : 'unavailable');
+    }
+  }
+
+  /**
+   * 地名搜索（仅中国境内，上海和浙江优先）
+   */
+  static async searchLocations(query: string, options: RequestOptions = {}): Promise<SearchResult[]> {
+    const response = await fetchWithRetry(`${GEOCODE_ENDPOINT}?${new URLSearchParams({ q: query })}`, {
+      signal: options.signal
+    });
+
+    try {
+      return normalizeGeocodingResults(await response.json());
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('Invalid geocoding response:', error);
+      throw new InvalidResponseError();
     }
   }
 
   /**
    * 根据城市名称获取天气数据（使用预设坐标）
    */
-  static async getWeatherByCity(cityName: string): Promise<WeatherData> {
-    const cityCoordinates: Record<string, Coordinates> = {
-      '上海': { lat: 31.2304, lng: 121.4737 },
-      '杭州': { lat: 30.2741, lng: 120.1551 },
-      '宁波': { lat: 29.8683, lng: 121.5440 },
-      '温州': { lat: 28.0000, lng: 120.6700 },
-      '嘉兴': { lat: 30.7527, lng: 120.7550 },
-      '湖州': { lat: 30.8703, lng: 120.0873 },
-      '绍兴': { lat: 30.0023, lng: 120.5810 },
-      '金华': { lat: 29.1028, lng: 119.6498 },
-      '衢州': { lat: 28.9700, lng: 118.8700 },
-      '舟山': { lat: 30.0360, lng: 122.2070 },
-      '台州': { lat: 28.6129, lng: 121.4200 },
-      '丽水': { lat: 28.4517, lng: 119.9220 }
-    };
-
-    const coordinates = cityCoordinates[cityName];
-    if (!coordinates) {
-      throw new Error(`未找到城市 ${cityName} 的坐标信息`);
+  static async getWeatherByCity(cityName: string, options: RequestOptions = {}): Promise<WeatherData> {
+    const layer = findRegionLayerByName(cityName);
+    if (!layer) {
+      throw new UnknownLocationError(cityName);
     }
 
-    return this.getWeatherData(coordinates);
+    return this.getWeatherData(layer.center, options);
   }
 }
 
+// 缺测值的占位显示
+const MISSING_VALUE = '--';
+
 /**
  * 格式化温度显示
  */
-export function formatTemperature(temp: number): string {
-  return `${Math.round(temp)}°C`;
+export function formatTemperature(temp: number, unit: TemperatureUnit = 'celsius'): string {
+  if (!Number.isFinite(temp)) return MISSING_VALUE;
+  return `${Math.round(convertTemperature(temp, unit))}${UNIT_SYMBOLS[unit]}`;
 }
 
 /**
- * 格式化风速显示
+ * 格式化风速显示，蒲福风级的文案随语言变化，由界面层格式化
  */
-export function formatWindSpeed(speed: number): string {
-  return `${Math.round(speed)} km/h`;
+export function formatWindSpeed(speed: number, unit: Exclude<WindSpeedUnit, 'beaufort'> = 'kmh'): string {
+  if (!Number.isFinite(speed)) return MISSING_VALUE;
+  const value = convertWindSpeed(speed, unit);
+  return `${unit === 'ms' ? value.toFixed(1) : Math.round(value)} ${UNIT_SYMBOLS[unit]}`;
 }
 
 /**
  * 格式化湿度显示
  */
 export function formatHumidity(humidity: number): string {
+  if (!Number.isFinite(humidity)) return MISSING_VALUE;
   return `${Math.round(humidity)}%`;
 }
 
 /**
  * 格式化降水量显示
  */
-export function formatPrecipitation(precipitation: number): string {
-  return `${precipitation.toFixed(1)} mm`;
-}
\ No newline at end of file
+export function formatPrecipitation(precipitation: number, unit: PrecipitationUnit = 'mm'): string {
+  if (!Number.isFinite(precipitation)) return MISSING_VALUE;
+  const value = convertPrecipitation(precipitation, unit);
+  return `${value.toFixed(unit === 'inch' ? 2 : 1)} ${UNIT_SYMBOLS[unit]}`;
+}
@@ -0,0 +1,38 @@
+/**
+ * 计算坐标轴范围
+ */
+export function getRange(values: number[], fallback: [number, number]): [number, number] {
+  const finite = values.filter(value => Number.isFinite(value));
+  if (finite.length === 0) return fallback;
+
+  const min = Math.floor(Math.min(...finite));
+  const max = Math.ceil(Math.max(...finite));
+  return min === max ? [min - 1, max + 1] : [min, max];
+}
+
+/**
+ * 生成折线路径，缺测值处断开
+ */
+export function buildLinePath(values: number[], toX: (index: number) => number, toY: (value: number) => number): string {
+  let path = '';
+  let drawing = false;
+
+  values.forEach((value, index) => {
+    if (!Number.isFinite(value)) {
+      drawing = false;
+      return;
+    }
+    path += `${drawing ? 'L' : 'M'} ${toX(index).toFixed(1)} ${toY(value).toFixed(1)} `;
+    drawing = true;
+  });
+
+  return path.trim();
+}
+
+/**
+ * 逐小时时间轴中当前小时的下标，找不到时返回 0
+ */
+export function findCurrentHourIndex(times: string[], currentTime: string): number {
+  const currentHour = currentTime.slice(0, 13);
+  return Math.max(0, times.findIndex(time => time.slice(0, 13) >= currentHour));
+}
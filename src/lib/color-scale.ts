@@ -0,0 +1,169 @@
+import { WeatherData, WeatherMetric } from '@/types';
+
+/**
+ * 天气指标的色带配置
+ */
+export interface MetricScale {
+  /** 色带颜色，按数值从低到高排列 */
+  colors: string[];
+  /** 数据范围过窄时使用的最小跨度，避免细微差异被放大成整条色带 */
+  minSpan: number;
+  /** 数值下限（如降水、风速不会小于0） */
+  floor?: number;
+}
+
+/**
+ * 指标取值的色阶范围
+ */
+export interface ScaleDomain {
+  min: number;
+  max: number;
+}
+
+export const METRIC_SCALES: Record<WeatherMetric, MetricScale> = {
+  temperature: {
+    colors: ['#313695', '#4575b4', '#74add1', '#e0f3f8', '#fee090', '#f46d43', '#a50026'],
+    minSpan: 4
+  },
+  precipitation: {
+    colors: ['#f7fbff', '#c6dbef', '#6baed6', '#2171b5', '#08306b'],
+    minSpan: 2,
+    floor: 0
+  },
+  windSpeed: {
+    colors: ['#f7fcf5', '#c7e9c0', '#74c476', '#238b45', '#00441b'],
+    minSpan: 10,
+    floor: 0
+  },
+  humidity: {
+    colors: ['#fff7ec', '#fdd49e', '#a6bddb', '#3690c0', '#034e7b'],
+    minSpan: 10,
+    floor: 0
+  }
+};
+
+/**
+ * 从天气数据中取出指定指标的值
+ *
+ * hourIndex 为空时取当前实况，否则取逐小时预报中对应时次的值。
+ */
+export function getMetricValue(metric: WeatherMetric, weather: WeatherData, hourIndex: number | null = null): number {
+  if (hourIndex !== null) {
+    return getMetricSeries(metric, weather)[hourIndex] ?? NaN;
+  }
+
+  const { current } = weather;
+
+  switch (metric) {
+    case 'temperature':
+      return current.temperature;
+    case 'precipitation':
+      return current.precipitation;
+    case 'windSpeed':
+      return current.windSpeed;
+    case 'humidity':
+      return current.humidity;
+  }
+}
+
+/**
+ * 取出指定指标的逐小时序列
+ */
+export function getMetricSeries(metric: WeatherMetric, weather: WeatherData): number[] {
+  const { hourly } = weather;
+
+  switch (metric) {
+    case 'temperature':
+      return hourly.temperature;
+    case 'precipitation':
+      return hourly.precipitation;
+    case 'windSpeed':
+      return hourly.windSpeed;
+    case 'humidity':
+      return hourly.humidity;
+  }
+}
+
+/**
+ * 根据一组数值计算色阶范围（取整并保证最小跨度）
+ */
+export function calculateDomain(metric: WeatherMetric, values: number[]): ScaleDomain | null {
+  const finite = values.filter(value => Number.isFinite(value));
+  if (finite.length === 0) return null;
+
+  const scale = METRIC_SCALES[metric];
+  let min = Math.floor(Math.min(...finite));
+  let max = Math.ceil(Math.max(...finite));
+
+  if (max - min < scale.minSpan) {
+    const middle = (min + max) / 2;
+    min = Math.floor(middle - scale.minSpan / 2);
+    max = min + scale.minSpan;
+  }
+
+  if (scale.floor !== undefined && min < scale.floor) {
+    max += scale.floor - min;
+    min = scale.floor;
+  }
+
+  return { min, max };
+}
+
+/**
+ * 解析 #rrggbb 颜色
+ */
+function parseHexColor(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/**
+ * 在色带上按连续数值插值得到颜色
+ */
+export function getMetricColor(metric: WeatherMetric, value: number, domain: ScaleDomain): string {
+  const { colors } = METRIC_SCALES[metric];
+  const span = domain.max - domain.min;
+  const ratio = span > 0 ? Math.min(1, Math.max(0, (value - domain.min) / span)) : 0;
+
+  const position = ratio * (colors.length - 1);
+  const index = Math.min(Math.floor(position), colors.length - 2);
+  const t = position - index;
+
+  const [r1, g1, b1] = parseHexColor(colors[index]);
+  const [r2, g2, b2] = parseHexColor(colors[index + 1]);
+  const mix = (a: number, b: number) => Math.round(a + (b - a) * t);
+
+  return `rgb(${mix(r1, r2)}, ${mix(g1, g2)}, ${mix(b1, b2)})`;
+}
+
+/**
+ * 生成图例使用的CSS渐变
+ */
+export function getMetricGradient(metric: WeatherMetric): string {
+  return `linear-gradient(to right, ${METRIC_SCALES[metric].colors.join(', ')})`;
+}
+
+/**
+ * 一组区县指标值的汇总
+ */
+export interface MetricAggregate {
+  min: number;
+  max: number;
+  mean: number;
+  count: number;
+}
+
+/**
+ * 汇总下级区域的指标值（忽略缺测）
+ */
+export function aggregateMetricValues(values: number[]): MetricAggregate | null {
+  const finite = values.filter(value => Number.isFinite(value));
+  if (finite.length === 0) return null;
+
+  return {
+    min: Math.min(...finite),
+    max: Math.max(...finite),
+    mean: finite.reduce((sum, value) => sum + value, 0) / finite.length,
+    count: finite.length
+  };
+}
@@ -0,0 +1,100 @@
+import { CompareLocation, Coordinates, WeatherData } from '@/types';
+import {
+  AlertSeverity,
+  AlertThresholds,
+  DEFAULT_ALERT_THRESHOLDS,
+  evaluateAlerts,
+  getHighestSeverity
+} from './alerts';
+import { findCurrentHourIndex } from './chart-utils';
+
+/** 同时对比的地点数上限 */
+export const MAX_COMPARE_LOCATIONS = 4;
+
+/** 各对比地点的系列颜色，按加入顺序分配 */
+export const COMPARE_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea'];
+
+/** 对比的预报时长（小时） */
+export const COMPARE_HOURS = 48;
+
+/**
+ * 创建对比地点，区县以 adcode 区分，其他地点以坐标区分
+ */
+export function createCompareLocation(name: string, coordinates: Coordinates, adcode?: number): CompareLocation {
+  return {
+    id: adcode !== undefined ? `region:${adcode}` : `point:${coordinates.lat.toFixed(4)},${coordinates.lng.toFixed(4)}`,
+    name,
+    coordinates,
+    ...(adcode !== undefined && { adcode })
+  };
+}
+
+/**
+ * 切换地点的对比状态：已在列表中则移除，否则追加
+ *
+ * 列表已满时不追加，返回 full 以便提示。
+ */
+export function toggleCompareLocation(
+  locations: CompareLocation[],
+  location: CompareLocation
+): { locations: CompareLocation[]; result: 'added' | 'removed' | 'full' } {
+  if (locations.some(item => item.id === location.id)) {
+    return { locations: locations.filter(item => item.id !== location.id), result: 'removed' };
+  }
+  if (locations.length >= MAX_COMPARE_LOCATIONS) {
+    return { locations, result: 'full' };
+  }
+  return { locations: [...locations, location], result: 'added' };
+}
+
+/**
+ * 对比表中单个地点的预报摘要，统计范围为当前小时起的对比时长
+ */
+export interface ForecastSummary {
+  temperature: number;
+  temperatureMax: number;
+  temperatureMin: number;
+  /** 累计降水（mm） */
+  precipitationTotal: number;
+  /** 最大降水概率（%） */
+  precipitationProbabilityMax: number;
+  windSpeedMax: number;
+  windGustMax: number;
+  /** 时段内最高预警级别 */
+  alertSeverity: AlertSeverity | null;
+}
+
+/**
+ * 有效值的最大、最小值，全部缺测时为 NaN
+ */
+function extent(values: number[]): [number, number] {
+  const finite = values.filter(value => Number.isFinite(value));
+  return finite.length > 0 ? [Math.min(...finite), Math.max(...finite)] : [NaN, NaN];
+}
+
+/**
+ * 统计对比时段内的预报摘要
+ */
+export function summarizeForecast(
+  weather: WeatherData,
+  hours: number = COMPARE_HOURS,
+  thresholds: AlertThresholds = DEFAULT_ALERT_THRESHOLDS
+): ForecastSummary {
+  const { hourly } = weather;
+  const start = findCurrentHourIndex(hourly.time, weather.current.time);
+  const window = (values: number[]) => values.slice(start, start + hours);
+
+  const [temperatureMin, temperatureMax] = extent(window(hourly.temperature));
+  const precipitation = window(hourly.precipitation).filter(value => Number.isFinite(value));
+
+  return {
+    temperature: weather.current.temperature,
+    temperatureMax,
+    temperatureMin,
+    precipitationTotal: precipitation.length > 0 ? precipitation.reduce((sum, value) => sum + value, 0) : NaN,
+    precipitationProbabilityMax: extent(window(hourly.precipitationProbability))[1],
+    windSpeedMax: extent(window(hourly.windSpeed))[1],
+    windGustMax: extent(window(hourly.windGusts))[1],
+    alertSeverity: getHighestSeverity(evaluateAlerts(weather, thresholds))
+  };
+}
@@ -0,0 +1,134 @@
+import { CompareLocation, FavoriteLocation } from '@/types';
+
+/** 收藏数量上限 */
+export const MAX_FAVORITES = 50;
+
+// 导出文件的格式版本，结构变化时递增
+const FAVORITES_FORMAT_VERSION = 1;
+
+export const FAVORITES_STORAGE_KEY = 'weather-map-app:favorites';
+
+/**
+ * 收藏数据格式不符合预期
+ */
+export class FavoritesFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FavoritesFormatError';
+  }
+}
+
+/**
+ * 导出文件结构
+ */
+interface FavoritesFile {
+  version: number;
+  exportedAt: string;
+  favorites: FavoriteLocation[];
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * 校验单个收藏条目，无效时返回 null
+ */
+function parseFavorite(raw: unknown): FavoriteLocation | null {
+  if (!isObject(raw)) return null;
+
+  const { id, name, label, coordinates, adcode, addedAt } = raw;
+  if (typeof id !== 'string' || !id || typeof name !== 'string' || !name) return null;
+  if (!isObject(coordinates)) return null;
+
+  const { lat, lng } = coordinates;
+  if (typeof lat !== 'number' || typeof lng !== 'number' || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+
+  return {
+    id,
+    name,
+    coordinates: { lat, lng },
+    ...(typeof adcode === 'number' && Number.isInteger(adcode) && { adcode }),
+    ...(typeof label === 'string' && label.trim() && { label: label.trim() }),
+    addedAt: typeof addedAt === 'number' && Number.isFinite(addedAt) ? addedAt : Date.now()
+  };
+}
+
+/**
+ * 解析收藏列表，接受导出文件或条目数组；无效条目丢弃，重复条目只保留第一个
+ */
+export function parseFavorites(raw: unknown): FavoriteLocation[] {
+  const items = isObject(raw) ? raw.favorites : raw;
+  if (!Array.isArray(items)) throw new FavoritesFormatError('收藏文件格式不正确');
+
+  const seen = new Set<string>();
+  return items.flatMap(item => {
+    const favorite = parseFavorite(item);
+    if (!favorite || seen.has(favorite.id)) return [];
+    seen.add(favorite.id);
+    return [favorite];
+  });
+}
+
+/**
+ * 将收藏列表编码为导出文件内容
+ */
+export function serializeFavorites(favorites: FavoriteLocation[]): string {
+  const file: FavoritesFile = {
+    version: FAVORITES_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    favorites
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * 合并导入的收藏，已存在的地点保留原条目，超出上限的部分丢弃
+ */
+export function mergeFavorites(
+  existing: FavoriteLocation[],
+  imported: FavoriteLocation[]
+): { favorites: FavoriteLocation[]; added: number } {
+  const ids = new Set(existing.map(favorite => favorite.id));
+  const additions = imported
+    .filter(favorite => !ids.has(favorite.id))
+    .slice(0, Math.max(0, MAX_FAVORITES - existing.length));
+
+  return { favorites: [...existing, ...additions], added: additions.length };
+}
+
+/**
+ * 由地点创建收藏条目
+ */
+export function createFavorite(location: CompareLocation): FavoriteLocation {
+  return { ...location, addedAt: Date.now() };
+}
+
+/**
+ * 收藏的显示名称
+ */
+export function getFavoriteLabel(favorite: FavoriteLocation): string {
+  return favorite.label ?? favorite.name;
+}
+
+/**
+ * 从本地存储读取收藏，数据损坏时返回空列表
+ */
+export function loadFavorites(storage: Storage = window.localStorage): FavoriteLocation[] {
+  const raw = storage.getItem(FAVORITES_STORAGE_KEY);
+  if (!raw) return [];
+
+  try {
+    return parseFavorites(JSON.parse(raw));
+  } catch (error) {
+    console.error('Failed to load favorites:', error);
+    return [];
+  }
+}
+
+/**
+ * 写入本地存储
+ */
+export function saveFavorites(favorites: FavoriteLocation[], storage: Storage = window.localStorage): void {
+  storage.setItem(FAVORITES_STORAGE_KEY, JSON.stringify(favorites));
+}
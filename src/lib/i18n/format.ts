@@ -0,0 +1,230 @@
+import { WeatherMetric } from '@/types';
+import { AlertSeverity, WeatherAlert } from '@/lib/alerts';
+import {
+  formatHumidity,
+  formatPrecipitation,
+  formatTemperature,
+  formatWindSpeed
+} from '@/lib/api/weather';
+import { Settings, resolveTimeZone } from '@/lib/settings';
+import {
+  UNIT_SYMBOLS,
+  convertPrecipitation,
+  convertTemperature,
+  convertWindSpeed
+} from '@/lib/units';
+import { MessageKey, Translate, createTranslator, isMessageKey } from './index';
+
+/**
+ * 按用户设置的语言、单位和时区格式化天气数据
+ *
+ * 预报时间为数据时区（WeatherData.timezone）的当地时间（YYYY-MM-DDTHH:mm），
+ * 显示时换算到设置的时区；逐日预报的日期为当地日历日期，不做换算。
+ */
+export interface Formatters {
+  temperature: (celsius: number) => string;
+  windSpeed: (kmh: number) => string;
+  precipitation: (mm: number) => string;
+  humidity: (percent: number) => string;
+  /** 百分比（如降水概率），缺测显示占位符 */
+  percent: (value: number) => string;
+  /** 换算为设置的单位，用于图表坐标 */
+  convertMetric: (metric: WeatherMetric, value: number) => number;
+  metricValue: (metric: WeatherMetric, value: number) => string;
+  metricLabel: (metric: WeatherMetric) => string;
+  metricUnit: (metric: WeatherMetric) => string;
+  weatherDescription: (code: number) => string;
+  windDirection: (degree: number) => string;
+  severityLabel: (severity: AlertSeverity) => string;
+  alertTitle: (alert: Pick<WeatherAlert, 'type' | 'severity'>) => string;
+  alertDescription: (alert: Pick<WeatherAlert, 'type' | 'value'>) => string;
+  /** 预报时次在显示时区中的小时（0～23） */
+  hourOf: (time: string, timeZone: string) => number;
+  /** 预报时次的小时，如“14时” */
+  hour: (time: string, timeZone: string) => string;
+  /** 预报时次的日期，如“4/2” */
+  day: (time: string, timeZone: string) => string;
+  /** 预报时次的星期，如“周二” */
+  weekday: (time: string, timeZone: string) => string;
+  /** 预报时次的日期和时间，如“4月2日 14:00” */
+  dateTime: (time: string, timeZone: string) => string;
+  /** 时间戳的完整日期和时间 */
+  timestamp: (timestamp: number) => string;
+  /** 逐日预报日期，前两天显示为今天、明天 */
+  forecastDate: (date: string, index: number) => string;
+}
+
+// 缺测值的占位显示
+const MISSING_VALUE = '--';
+
+const WIND_DIRECTIONS: MessageKey[] = [
+  'wind.n', 'wind.ne', 'wind.e', 'wind.se', 'wind.s', 'wind.sw', 'wind.w', 'wind.nw'
+];
+
+// Intl.DateTimeFormat 创建开销较大，按参数缓存
+const dateTimeFormats = new Map<string, Intl.DateTimeFormat>();
+
+function getDateTimeFormat(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let format = dateTimeFormats.get(key);
+  if (!format) {
+    format = new Intl.DateTimeFormat(locale, options);
+    dateTimeFormats.set(key, format);
+  }
+  return format;
+}
+
+/**
+ * 时区在指定时刻相对 UTC 的偏移（毫秒）
+ */
+function getTimeZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = getDateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric'
+  }).formatToParts(new Date(timestamp));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(part => part.type === type)?.value);
+
+  const wallClock = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return wallClock - Math.floor(timestamp / 1000) * 1000;
+}
+
+/**
+ * 将时区的当地时间（YYYY-MM-DDTHH:mm）换算为时间戳
+ */
+export function parseZonedTime(time: string, timeZone: string): number {
+  const wallClock = Date.parse(`${time.slice(0, 16)}Z`);
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  // 夏令时切换前后偏移可能不同，按换算后的时刻再校正一次
+  return wallClock - getTimeZoneOffset(guess, timeZone);
+}
+
+/**
+ * 根据设置创建格式化函数
+ */
+export function createFormatters(settings: Settings, t: Translate = createTranslator(settings.locale)): Formatters {
+  const { locale, temperatureUnit, windSpeedUnit, precipitationUnit } = settings;
+  const displayTimeZone = resolveTimeZone(settings.timeZone);
+
+  const temperature = (celsius: number) => formatTemperature(celsius, temperatureUnit);
+
+  const windSpeed = (kmh: number) => {
+    if (windSpeedUnit !== 'beaufort') return formatWindSpeed(kmh, windSpeedUnit);
+    if (!Number.isFinite(kmh)) return MISSING_VALUE;
+    return t('units.beaufortValue', { level: convertWindSpeed(kmh, windSpeedUnit) });
+  };
+
+  const precipitation = (mm: number) => formatPrecipitation(mm, precipitationUnit);
+
+  const weatherDescription = (code: number) => {
+    const key = `weatherCode.${code}`;
+    return isMessageKey(key) ? t(key) : t('weather.unknown');
+  };
+
+  const severityLabel = (severity: AlertSeverity) => t(`alert.severity.${severity}`);
+
+  const formatZoned = (time: string, timeZone: string, options: Intl.DateTimeFormatOptions) =>
+    getDateTimeFormat(locale, { ...options, timeZone: displayTimeZone })
+      .format(new Date(parseZonedTime(time, timeZone)));
+
+  // 数据时区与显示时区相同时直接读取时间字符串
+  const hourOf = (time: string, timeZone: string) => {
+    if (timeZone === displayTimeZone) return Number(time.slice(11, 13));
+    const parts = getDateTimeFormat('en-US', { timeZone: displayTimeZone, hour: 'numeric', hourCycle: 'h23' })
+      .formatToParts(new Date(parseZonedTime(time, timeZone)));
+    return Number(parts.find(part => part.type === 'hour')?.value);
+  };
+
+  return {
+    temperature,
+    windSpeed,
+    precipitation,
+    humidity: formatHumidity,
+    percent: value => (Number.isFinite(value) ? `${Math.round(value)}%` : MISSING_VALUE),
+    convertMetric: (metric, value) => {
+      switch (metric) {
+        case 'temperature':
+          return convertTemperature(value, temperatureUnit);
+        case 'precipitation':
+          return convertPrecipitation(value, precipitationUnit);
+        case 'windSpeed':
+          return convertWindSpeed(value, windSpeedUnit);
+        case 'humidity':
+          return value;
+      }
+    },
+    metricValue: (metric, value) => {
+      switch (metric) {
+        case 'temperature':
+          return temperature(value);
+        case 'precipitation':
+          return precipitation(value);
+        case 'windSpeed':
+          return windSpeed(value);
+        case 'humidity':
+          return formatHumidity(value);
+      }
+    },
+    metricLabel: metric => t(`metric.${metric}`),
+    metricUnit: metric => {
+      switch (metric) {
+        case 'temperature':
+          return UNIT_SYMBOLS[temperatureUnit];
+        case 'precipitation':
+          return UNIT_SYMBOLS[precipitationUnit];
+        case 'windSpeed':
+          return windSpeedUnit === 'beaufort' ? t('units.beaufortSymbol') : UNIT_SYMBOLS[windSpeedUnit];
+        case 'humidity':
+          return '%';
+      }
+    },
+    weatherDescription,
+    windDirection: degree => t(WIND_DIRECTIONS[Math.round((((degree % 360) + 360) % 360) / 45) % 8]),
+    severityLabel,
+    alertTitle: ({ type, severity }) => t('alert.title', {
+      type: t(`alert.type.${type}`),
+      severity: severityLabel(severity)
+    }),
+    alertDescription: ({ type, value }) => {
+      switch (type) {
+        case 'rain':
+          return t('alert.description.rain', { value: precipitation(value) });
+        case 'gust':
+          return t('alert.description.gust', { value: windSpeed(value) });
+        case 'heat':
+          return t('alert.description.heat', { value: temperature(value) });
+        case 'freezing':
+          return t('alert.description.freezing', { value: temperature(value) });
+        case 'thunderstorm':
+          return weatherDescription(value);
+      }
+    },
+    hourOf,
+    hour: (time, timeZone) => t('time.hour', { hour: hourOf(time, timeZone) }),
+    day: (time, timeZone) => formatZoned(time, timeZone, { month: 'numeric', day: 'numeric' }),
+    weekday: (time, timeZone) => formatZoned(time, timeZone, { weekday: 'short' }),
+    dateTime: (time, timeZone) => formatZoned(time, timeZone, {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23'
+    }),
+    timestamp: timestamp => getDateTimeFormat(locale, {
+      timeZone: displayTimeZone,
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    }).format(new Date(timestamp)),
+    forecastDate: (date, index) => {
+      if (index === 0) return t('time.today');
+      if (index === 1) return t('time.tomorrow');
+      return getDateTimeFormat(locale, { timeZone: 'UTC', month: 'short', day: 'numeric', weekday: 'short' })
+        .format(new Date(`${date}T00:00:00Z`));
+    }
+  };
+}
@@ -0,0 +1,71 @@
+import zhCN from './messages/zh-CN';
+import en from './messages/en';
+import { UnknownLocationError, WeatherAPIError } from '@/lib/api/errors';
+
+/**
+ * 界面语言
+ */
+export type Locale = 'zh-CN' | 'en';
+
+export const LOCALES: Locale[] = ['zh-CN', 'en'];
+
+/** 语言选项使用各自语言的名称显示 */
+export const LOCALE_NAMES: Record<Locale, string> = {
+  'zh-CN': '简体中文',
+  en: 'English'
+};
+
+export type MessageKey = keyof typeof zhCN;
+
+export type Messages = Record<MessageKey, string>;
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * 待翻译的文案，用于在状态中保存提示，渲染时再按当前语言生成文本
+ */
+export interface Message {
+  key: MessageKey;
+  params?: MessageParams;
+}
+
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, Messages> = {
+  'zh-CN': zhCN,
+  en
+};
+
+/**
+ * 是否为已定义的文案键，用于拼接出的键（如天气代码）
+ */
+export function isMessageKey(key: string): key is MessageKey {
+  return Object.prototype.hasOwnProperty.call(zhCN, key);
+}
+
+/**
+ * 取出指定语言的文案并替换占位符，未提供的占位符保持原样
+ */
+export function translate(locale: Locale, key: MessageKey, params?: MessageParams): string {
+  const template = CATALOGS[locale][key] ?? zhCN[key];
+  if (!params) return template;
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+/**
+ * 绑定语言的翻译函数
+ */
+export function createTranslator(locale: Locale): Translate {
+  return (key, params) => translate(locale, key, params);
+}
+
+/**
+ * 按错误类别转换为对应的提示，非接口错误使用 fallback
+ */
+export function describeError(error: unknown, fallback: MessageKey): Message {
+  if (!(error instanceof WeatherAPIError)) return { key: fallback };
+  const params = error instanceof UnknownLocationError ? { location: error.location } : undefined;
+  return { key: `error.${error.code}`, params };
+}
@@ -0,0 +1,239 @@
+import type { Messages } from '../index';
+
+/**
+ * 英文文案，须覆盖中文文案的全部键
+ */
+const en: Messages = {
+  'common.listSeparator': ', ',
+  'common.enumSeparator': ', ',
+  'common.labeledValue': '{label}: {value}',
+  'common.withShortcut': '{label} ({key})',
+
+  'app.title': 'Yangtze River Delta Weather',
+  'app.subtitle': 'Click a region on the map or search for a place to see its weather',
+  'app.clearSelection': 'Clear selection',
+  'app.offline': 'You are offline. The map and weather show the most recently fetched data.',
+  'app.mapTitle': 'Shanghai & Zhejiang',
+  'app.selected': 'Selected: {name}',
+  'app.searchResult': '(search result)',
+  'app.details': 'Details',
+  'app.emptyTitle': 'Select a region to see its weather',
+  'app.emptyHint': 'Click any region on the map or search for a place to see its current weather',
+  'app.loading': 'Fetching weather data...',
+  'app.errorTitle': 'Failed to fetch weather data',
+  'app.retry': 'Retry',
+  'app.dataSource': 'Data source: ',
+  'app.footer': '© 2024 Yangtze River Delta Weather - Built with Next.js',
+  'app.statusLoading': 'Fetching weather data for {name}',
+  'app.statusFailed': 'Failed to fetch weather data for {name}: {error}',
+  'app.statusCurrent': 'Current weather in {name}: {description}',
+
+  'error.network': 'Network connection failed. Check your connection and try again.',
+  'error.unavailable': 'The service is temporarily unavailable. Please try again later.',
+  'error.rateLimited': 'Too many requests. Please try again later.',
+  'error.badRequest': 'The request was invalid. Please check it and try again.',
+  'error.invalidResponse': 'The weather data is malformed',
+  'error.unknownLocation': 'Could not find the location of {location}',
+  'error.weatherFailed': 'Failed to fetch weather data',
+  'error.searchFailed': 'Search failed, please try again',
+  'error.regionNotFound': 'The region in the link does not exist',
+
+  'settings.title': 'Settings',
+  'settings.language': 'Language',
+  'settings.temperatureUnit': 'Temperature unit',
+  'settings.windSpeedUnit': 'Wind speed unit',
+  'settings.precipitationUnit': 'Precipitation unit',
+  'settings.timeZone': 'Time zone',
+  'settings.localTimeZone': 'Local time ({zone})',
+  'settings.timeZoneHint': 'Only changes how times are shown; daily forecasts still follow local calendar days',
+  'settings.alertThresholds': 'Warning thresholds',
+  'settings.alertThresholdsHint': 'Trigger values for blue, yellow, orange and red warnings',
+  'settings.alertHorizon': 'Look-ahead',
+  'settings.alertHorizonValue': '{hours} hours',
+  'settings.alertRule.rain': '24h precipitation (mm)',
+  'settings.alertRule.gust': 'Gusts (km/h)',
+  'settings.alertRule.heat': 'Heat index (°C)',
+  'settings.alertRule.freezing': 'Low temperature (°C, at or below)',
+  'settings.alertThreshold': '{rule} {severity} threshold',
+  'settings.reset': 'Reset to defaults',
+  'settings.close': 'Close settings',
+
+  'units.celsius': 'Celsius (°C)',
+  'units.fahrenheit': 'Fahrenheit (°F)',
+  'units.kmh': 'Kilometres per hour (km/h)',
+  'units.ms': 'Metres per second (m/s)',
+  'units.beaufort': 'Beaufort scale',
+  'units.knots': 'Knots (kn)',
+  'units.mm': 'Millimetres (mm)',
+  'units.inch': 'Inches (in)',
+  'units.beaufortSymbol': 'Bft',
+  'units.beaufortValue': 'Force {level}',
+
+  'time.today': 'Today',
+  'time.tomorrow': 'Tomorrow',
+  'time.hour': '{hour}:00',
+
+  'metric.temperature': 'Temperature',
+  'metric.precipitation': 'Precipitation',
+  'metric.windSpeed': 'Wind speed',
+  'metric.humidity': 'Humidity',
+
+  'weather.unknown': 'Unknown weather',
+  'weather.current': 'Current weather',
+  'weather.stale': 'Unable to fetch the latest data. Showing weather fetched at {time}.',
+  'weather.apparent': 'Feels like',
+  'weather.apparentTemperature': 'Feels-like temperature',
+  'weather.humidity': 'Humidity',
+  'weather.windSpeed': 'Wind speed',
+  'weather.windDirection': 'Wind direction',
+  'weather.precipitationProbability': 'Precipitation probability',
+  'weather.night': 'Night',
+  'weather.nextHours': 'Next {hours} hours',
+  'weather.nextDays': '{days}-day forecast',
+  'weather.updatedAt': 'Updated: {time}',
+  'weather.alertSummary': '{title} and {more} more',
+
+  'weatherCode.0': 'Clear',
+  'weatherCode.1': 'Mostly clear',
+  'weatherCode.2': 'Partly cloudy',
+  'weatherCode.3': 'Overcast',
+  'weatherCode.45': 'Fog',
+  'weatherCode.48': 'Rime fog',
+  'weatherCode.51': 'Light rain',
+  'weatherCode.53': 'Moderate rain',
+  'weatherCode.55': 'Heavy rain',
+  'weatherCode.61': 'Light rain',
+  'weatherCode.63': 'Moderate rain',
+  'weatherCode.65': 'Heavy rain',
+  'weatherCode.71': 'Light snow',
+  'weatherCode.73': 'Moderate snow',
+  'weatherCode.75': 'Heavy snow',
+  'weatherCode.80': 'Showers',
+  'weatherCode.81': 'Showers',
+  'weatherCode.82': 'Heavy showers',
+  'weatherCode.95': 'Thunderstorm',
+  'weatherCode.96': 'Thunderstorm with hail',
+  'weatherCode.99': 'Severe thunderstorm with hail',
+
+  'wind.n': 'N',
+  'wind.ne': 'NE',
+  'wind.e': 'E',
+  'wind.se': 'SE',
+  'wind.s': 'S',
+  'wind.sw': 'SW',
+  'wind.w': 'W',
+  'wind.nw': 'NW',
+
+  'alert.title': '{severity} {type} warning',
+  'alert.severityAlert': '{severity} warning',
+  'alert.from': 'from {time}',
+  'alert.panelTitle': 'Weather warnings',
+  'alert.none': 'No warnings for any district in the next {hours} hours',
+  'alert.regions': 'Districts with warnings',
+  'alert.severity.blue': 'Blue',
+  'alert.severity.yellow': 'Yellow',
+  'alert.severity.orange': 'Orange',
+  'alert.severity.red': 'Red',
+  'alert.type.rain': 'rainstorm',
+  'alert.type.gust': 'gale',
+  'alert.type.heat': 'heat',
+  'alert.type.freezing': 'freeze',
+  'alert.type.thunderstorm': 'thunderstorm',
+  'alert.description.rain': '24-hour precipitation {value}',
+  'alert.description.gust': 'Gusts {value}',
+  'alert.description.heat': 'Heat index {value}',
+  'alert.description.freezing': 'Minimum temperature {value}',
+
+  'compare.title': 'Compare locations',
+  'compare.summary': '{count}/{max} · next {hours} h',
+  'compare.clear': 'Clear',
+  'compare.hint': 'Shift-click a region on the map, or click “Compare” on a search result to add a location',
+  'compare.item': 'Item',
+  'compare.remove': 'Remove {name} from comparison',
+  'compare.failed': 'Failed',
+  'compare.add': 'Compare',
+  'compare.addNamed': 'Add {name} to comparison',
+  'compare.full': 'You can compare up to {max} locations. Remove one first.',
+  'compare.added': 'Added {name} to comparison',
+  'compare.removed': 'Removed {name} from comparison',
+  'compare.chartLabel': '{metric} comparison for the next {hours} hours: {names}',
+  'compare.unit': 'Unit: {unit}',
+  'compare.none': 'None',
+  'compare.row.temperature': 'Current temperature',
+  'compare.row.temperatureRange': 'High / Low',
+  'compare.row.precipitation': 'Total precipitation',
+  'compare.row.precipitationProbability': 'Max precipitation probability',
+  'compare.row.windSpeed': 'Max wind speed',
+  'compare.row.windGusts': 'Max wind gusts',
+  'compare.row.alert': 'Warnings',
+
+  'favorites.title': 'Favorites',
+  'favorites.add': 'Add to favorites',
+  'favorites.remove': 'Remove from favorites',
+  'favorites.addNamed': 'Add {name} to favorites',
+  'favorites.removeNamed': 'Remove {name} from favorites',
+  'favorites.import': 'Import favorites',
+  'favorites.export': 'Export favorites',
+  'favorites.imported': 'Imported {count} locations',
+  'favorites.nothingImported': 'No new locations to import',
+  'favorites.importFailed': 'Import failed',
+  'favorites.invalidFile': 'The favorites file is not in a valid format',
+  'favorites.empty': 'Click the star on a weather card or search result to save a location',
+  'favorites.labelInput': 'Display name for {name}',
+  'favorites.moveUp': 'Move {name} up',
+  'favorites.moveDown': 'Move {name} down',
+  'favorites.rename': 'Rename {name}',
+
+  'search.placeholder': 'Search for a district or town...',
+
+  'map.root': 'Yangtze River Delta',
+  'map.loading': 'Loading map...',
+  'map.loadFailed': 'Failed to load map data',
+  'map.unavailable': 'Map data is unavailable',
+  'map.instructions': 'Use Tab or the arrow keys to move between regions and Enter to select one. Shift-click or press Shift+Enter to add a region to the comparison. Press plus and minus to zoom, 0 to reset the zoom and Esc to go up one level.',
+  'map.cityLabel': 'District map of {name}',
+  'map.overviewLabel': 'City map of the Yangtze River Delta',
+  'map.drillHint': 'press Enter to view districts',
+  'map.breadcrumb': 'Map levels',
+  'map.weatherFailed': 'Failed to fetch regional weather',
+  'map.weatherPartialFailed': 'Failed to fetch weather for {count} districts',
+  'map.modeRegion': 'Regions',
+  'map.modeRegionTitle': 'Show administrative regions',
+  'map.modeWeather': 'Weather',
+  'map.modeWeatherTitle': 'Color by weather metric',
+  'map.alerts': 'Warnings',
+  'map.showAlerts': 'Show warning outlines',
+  'map.hideAlerts': 'Hide warning outlines',
+  'map.zoomIn': 'Zoom in',
+  'map.zoomOut': 'Zoom out',
+  'map.resetZoom': 'Reset zoom',
+  'map.legend': 'Legend',
+  'map.selected': 'Selected',
+  'map.legendLoading': 'Fetching district weather...',
+  'map.legendEmpty': 'No data yet',
+  'map.noData': 'No data',
+
+  'region.hierarchy': 'Region hierarchy',
+  'region.title': '{name} weather',
+  'region.fullName': '{name}, {city}',
+  'region.viewOnMap': 'View on map',
+  'region.adcode': 'Administrative code {adcode}',
+  'region.parent': ', part of {city}',
+  'region.outline': 'Location of {name}',
+  'region.weatherFailed': 'Weather data is temporarily unavailable, please refresh later',
+  'region.notFoundTitle': 'Region not found - Yangtze River Delta Weather',
+  'region.metaTitle': '{name} weather forecast - Yangtze River Delta Weather',
+  'region.metaDescription': '{name} now: {description}, {temperature}, today {min} ~ {max}. See the 7-day forecast.',
+  'region.metaDescriptionNoWeather': 'Current weather and 7-day forecast for {name}.',
+
+  'timeline.previous': 'Previous hour',
+  'timeline.next': 'Next hour',
+  'timeline.play': 'Play',
+  'timeline.pause': 'Pause',
+  'timeline.label': 'Forecast time',
+  'timeline.current': 'Current',
+  'timeline.backToCurrent': 'Back to current conditions',
+  'timeline.now': 'Now'
+};
+
+export default en;
@@ -0,0 +1,237 @@
+/**
+ * 中文文案，作为全部文案键的来源；{name} 形式的占位符在显示时替换
+ */
+const zhCN = {
+  'common.listSeparator': '，',
+  'common.enumSeparator': '、',
+  'common.labeledValue': '{label} {value}',
+  'common.withShortcut': '{label}（{key}）',
+
+  'app.title': '长三角天气预报',
+  'app.subtitle': '点击地图区域或搜索地名查看天气信息',
+  'app.clearSelection': '清除选择',
+  'app.offline': '当前处于离线状态，地图和天气显示的是最近一次获取的数据',
+  'app.mapTitle': '上海 & 浙江地区',
+  'app.selected': '已选择: {name}',
+  'app.searchResult': '(搜索结果)',
+  'app.details': '详情页',
+  'app.emptyTitle': '选择地区查看天气',
+  'app.emptyHint': '点击地图上的任意区域，或使用搜索框查找地名，即可查看该地区的实时天气信息',
+  'app.loading': '正在获取天气数据...',
+  'app.errorTitle': '获取天气数据失败',
+  'app.retry': '重试',
+  'app.dataSource': '数据来源: ',
+  'app.footer': '© 2024 长三角天气预报 - 基于 Next.js 构建',
+  'app.statusLoading': '正在获取{name}的天气数据',
+  'app.statusFailed': '获取{name}的天气数据失败：{error}',
+  'app.statusCurrent': '{name}当前天气：{description}',
+
+  'error.network': '网络连接失败，请检查网络后重试',
+  'error.unavailable': '服务暂时不可用，请稍后重试',
+  'error.rateLimited': '请求过于频繁，请稍后再试',
+  'error.badRequest': '请求无效，请检查后重试',
+  'error.invalidResponse': '天气数据格式异常',
+  'error.unknownLocation': '未找到{location}的位置信息',
+  'error.weatherFailed': '获取天气数据失败',
+  'error.searchFailed': '搜索失败，请重试',
+  'error.regionNotFound': '链接中的区域不存在',
+
+  'settings.title': '设置',
+  'settings.language': '语言',
+  'settings.temperatureUnit': '温度单位',
+  'settings.windSpeedUnit': '风速单位',
+  'settings.precipitationUnit': '降水单位',
+  'settings.timeZone': '时区',
+  'settings.localTimeZone': '本地时区（{zone}）',
+  'settings.timeZoneHint': '仅影响时间的显示，逐日预报仍按当地日期划分',
+  'settings.alertThresholds': '预警阈值',
+  'settings.alertThresholdsHint': '依次为蓝、黄、橙、红色预警的触发值',
+  'settings.alertHorizon': '评估时长',
+  'settings.alertHorizonValue': '{hours} 小时',
+  'settings.alertRule.rain': '24小时降水（mm）',
+  'settings.alertRule.gust': '阵风（km/h）',
+  'settings.alertRule.heat': '炎热指数（°C）',
+  'settings.alertRule.freezing': '低温（°C，不高于）',
+  'settings.alertThreshold': '{rule}{severity}预警阈值',
+  'settings.reset': '恢复默认',
+  'settings.close': '关闭设置',
+
+  'units.celsius': '摄氏度（°C）',
+  'units.fahrenheit': '华氏度（°F）',
+  'units.kmh': '千米/时（km/h）',
+  'units.ms': '米/秒（m/s）',
+  'units.beaufort': '蒲福风级',
+  'units.knots': '节（kn）',
+  'units.mm': '毫米（mm）',
+  'units.inch': '英寸（in）',
+  'units.beaufortSymbol': '级',
+  'units.beaufortValue': '{level}级',
+
+  'time.today': '今天',
+  'time.tomorrow': '明天',
+  'time.hour': '{hour}时',
+
+  'metric.temperature': '温度',
+  'metric.precipitation': '降水',
+  'metric.windSpeed': '风速',
+  'metric.humidity': '湿度',
+
+  'weather.unknown': '未知天气',
+  'weather.current': '实时天气',
+  'weather.stale': '无法获取最新数据，显示的是 {time} 获取的天气',
+  'weather.apparent': '体感',
+  'weather.apparentTemperature': '体感温度',
+  'weather.humidity': '湿度',
+  'weather.windSpeed': '风速',
+  'weather.windDirection': '风向',
+  'weather.precipitationProbability': '降水概率',
+  'weather.night': '夜间',
+  'weather.nextHours': '未来{hours}小时',
+  'weather.nextDays': '未来{days}天预报',
+  'weather.updatedAt': '更新时间: {time}',
+  'weather.alertSummary': '{title}等{count}项',
+
+  'weatherCode.0': '晴朗',
+  'weatherCode.1': '大部分晴朗',
+  'weatherCode.2': '部分多云',
+  'weatherCode.3': '阴天',
+  'weatherCode.45': '雾',
+  'weatherCode.48': '霜雾',
+  'weatherCode.51': '小雨',
+  'weatherCode.53': '中雨',
+  'weatherCode.55': '大雨',
+  'weatherCode.61': '小雨',
+  'weatherCode.63': '中雨',
+  'weatherCode.65': '大雨',
+  'weatherCode.71': '小雪',
+  'weatherCode.73': '中雪',
+  'weatherCode.75': '大雪',
+  'weatherCode.80': '阵雨',
+  'weatherCode.81': '阵雨',
+  'weatherCode.82': '大阵雨',
+  'weatherCode.95': '雷暴',
+  'weatherCode.96': '雷暴伴冰雹',
+  'weatherCode.99': '强雷暴伴冰雹',
+
+  'wind.n': '北',
+  'wind.ne': '东北',
+  'wind.e': '东',
+  'wind.se': '东南',
+  'wind.s': '南',
+  'wind.sw': '西南',
+  'wind.w': '西',
+  'wind.nw': '西北',
+
+  'alert.title': '{type}{severity}预警',
+  'alert.severityAlert': '{severity}预警',
+  'alert.from': '{time}起',
+  'alert.panelTitle': '天气预警',
+  'alert.none': '未来{hours}小时各区县均无预警',
+  'alert.regions': '有预警的区县',
+  'alert.severity.blue': '蓝色',
+  'alert.severity.yellow': '黄色',
+  'alert.severity.orange': '橙色',
+  'alert.severity.red': '红色',
+  'alert.type.rain': '暴雨',
+  'alert.type.gust': '大风',
+  'alert.type.heat': '高温',
+  'alert.type.freezing': '低温冰冻',
+  'alert.type.thunderstorm': '雷暴',
+  'alert.description.rain': '24小时累计降水 {value}',
+  'alert.description.gust': '阵风 {value}',
+  'alert.description.heat': '炎热指数 {value}',
+  'alert.description.freezing': '最低气温 {value}',
+
+  'compare.title': '地点对比',
+  'compare.summary': '{count}/{max} · 未来{hours}小时',
+  'compare.clear': '清空',
+  'compare.hint': '按住 Shift 点击地图区域，或在搜索结果中点击“对比”添加地点',
+  'compare.item': '项目',
+  'compare.remove': '从对比中移除{name}',
+  'compare.failed': '获取失败',
+  'compare.add': '对比',
+  'compare.addNamed': '将{name}加入对比',
+  'compare.full': '最多同时对比 {max} 个地点，请先移除一个',
+  'compare.added': '已将{name}加入对比',
+  'compare.removed': '已将{name}移出对比',
+  'compare.chartLabel': '未来{hours}小时{metric}对比：{names}',
+  'compare.unit': '单位：{unit}',
+  'compare.none': '无',
+  'compare.row.temperature': '当前气温',
+  'compare.row.temperatureRange': '最高 / 最低',
+  'compare.row.precipitation': '累计降水',
+  'compare.row.precipitationProbability': '最大降水概率',
+  'compare.row.windSpeed': '最大风速',
+  'compare.row.windGusts': '最大阵风',
+  'compare.row.alert': '预警',
+
+  'favorites.title': '收藏地点',
+  'favorites.add': '收藏',
+  'favorites.remove': '取消收藏',
+  'favorites.addNamed': '收藏{name}',
+  'favorites.removeNamed': '取消收藏{name}',
+  'favorites.import': '导入收藏',
+  'favorites.export': '导出收藏',
+  'favorites.imported': '已导入 {count} 个地点',
+  'favorites.nothingImported': '没有可导入的新地点',
+  'favorites.importFailed': '导入失败',
+  'favorites.invalidFile': '收藏文件格式不正确',
+  'favorites.empty': '点击天气卡片或搜索结果上的星标收藏地点',
+  'favorites.labelInput': '{name}的显示名称',
+  'favorites.moveUp': '上移{name}',
+  'favorites.moveDown': '下移{name}',
+  'favorites.rename': '重命名{name}',
+
+  'search.placeholder': '搜索区县或乡镇名称...',
+
+  'map.root': '长三角',
+  'map.loading': '加载地图中...',
+  'map.loadFailed': '地图数据加载失败',
+  'map.unavailable': '地图数据不可用',
+  'map.instructions': '使用 Tab 键或方向键在区域间移动，回车键选择区域，按住 Shift 点击或按 Shift+回车加入对比，加号和减号缩放地图，0 重置缩放，Esc 返回上一级。',
+  'map.cityLabel': '{name}区县地图',
+  'map.overviewLabel': '长三角城市地图',
+  'map.drillHint': '按回车查看区县',
+  'map.breadcrumb': '地图层级',
+  'map.weatherFailed': '获取区域天气失败',
+  'map.weatherPartialFailed': '{count} 个区县天气获取失败',
+  'map.modeRegion': '区域',
+  'map.modeRegionTitle': '按行政区显示',
+  'map.modeWeather': '天气',
+  'map.modeWeatherTitle': '按天气指标着色',
+  'map.alerts': '预警',
+  'map.showAlerts': '显示预警轮廓',
+  'map.hideAlerts': '隐藏预警轮廓',
+  'map.zoomIn': '放大地图',
+  'map.zoomOut': '缩小地图',
+  'map.resetZoom': '重置缩放',
+  'map.legend': '图例',
+  'map.selected': '已选择',
+  'map.legendLoading': '正在获取各区县天气...',
+  'map.legendEmpty': '暂无数据',
+  'map.noData': '无数据',
+
+  'region.hierarchy': '区域层级',
+  'region.title': '{name}天气',
+  'region.fullName': '{city}{name}',
+  'region.viewOnMap': '在地图中查看',
+  'region.adcode': '行政区划代码 {adcode}',
+  'region.parent': '，隶属{city}',
+  'region.outline': '{name}位置示意图',
+  'region.weatherFailed': '暂时无法获取天气数据，请稍后刷新重试',
+  'region.notFoundTitle': '未找到该区域 - 长三角天气预报',
+  'region.metaTitle': '{name}天气预报 - 长三角天气预报',
+  'region.metaDescription': '{name}当前{description}，气温 {temperature}，今日 {min} ~ {max}。查看未来 7 天预报。',
+  'region.metaDescriptionNoWeather': '{name}实时天气与未来 7 天预报。',
+
+  'timeline.previous': '上一小时',
+  'timeline.next': '下一小时',
+  'timeline.play': '播放',
+  'timeline.pause': '暂停',
+  'timeline.label': '预报时间',
+  'timeline.current': '当前实况',
+  'timeline.backToCurrent': '回到当前实况',
+  'timeline.now': '现在'
+};
+
+export default zhCN;
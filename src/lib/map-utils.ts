@@ -1,32 +1,61 @@
 import { GeoData, GeoFeature, Coordinates } from '@/types';
+import { REGION_LAYERS, CityType, RegionLayer } from './regions';
+import { simplifyRing } from './simplify';
+import { Projection, ProjectionType, createProjection } from './projection';
+
+export type { Projection, ProjectionType } from './projection';
+
+export type { CityType } from './regions';
+
+/**
+ * GeoJSON 文件加载函数，浏览器端通过 fetch 加载，服务端可改为读取文件系统
+ */
+export type GeoFileLoader = (fileName: string) => Promise<GeoData>;
+
+// 同一文件只请求一次（多个图层可能共用省级文件）
+const geoFileCache = new Map<string, Promise<GeoData>>();
 
 /**
- * 支持的城市类型
+ * 加载 public/data 下的GeoJSON文件
  */
-export type CityType = 'shanghai' | 'hangzhou' | 'huzhou' | 'jiaxing' | 'ningbo' | 'shaoxing' | 'zhoushan';
+function loadGeoFile(fileName: string): Promise<GeoData> {
+  let request = geoFileCache.get(fileName);
+
+  if (!request) {
+    request = fetch(`/data/${fileName}`).then(response => {
+      if (!response.ok) {
+        throw new Error(`Failed to load ${fileName}`);
+      }
+      return response.json();
+    });
+    // 失败时移除，允许之后重试
+    request.catch(() => geoFileCache.delete(fileName));
+    geoFileCache.set(fileName, request);
+  }
+
+  return request;
+}
 
 /**
  * 加载单个城市的GeoJSON数据
  */
-export async function loadGeoData(city: CityType): Promise<GeoData> {
-  // Map English city names to Chinese file names
-  const cityFileMap: Record<CityType, string> = {
-    'shanghai': 'shanghai.geoJson',
-    'hangzhou': '杭州市.geoJson',
-    'huzhou': '湖州市.geoJson',
-    'jiaxing': '嘉兴市.geoJson',
-    'ningbo': '宁波市.geoJson',
-    'shaoxing': '绍兴市.geoJson',
-    'zhoushan': '舟山市.geoJson'
-  };
+export async function loadGeoData(city: CityType, loadFile: GeoFileLoader = loadGeoFile): Promise<GeoData> {
+  const layer = REGION_LAYERS.find(item => item.id === city);
+  if (!layer) {
+    throw new Error(`Unknown city: ${city}`);
+  }
   
   try {
-    const fileName = cityFileMap[city];
-    const response = await fetch(`/data/${fileName}`);
-    if (!response.ok) {
-      throw new Error(`Failed to load ${fileName}`);
+    const data = await loadFile(layer.file);
+    if (!('featureAdcode' in layer)) {
+      return data;
     }
-    return await response.json();
+
+    // 省级文件中只保留该城市的要素
+    return {
+      type: 'FeatureCollection',
+      features: data.features.filter(feature => feature.properties.adcode === layer.featureAdcode)
+    };
   } catch (error) {
     console.error(`Error loading ${city} geo data:`, error);
     throw error;
@@ -35,24 +64,22 @@ export async function loadGeoData(city: CityType): Promise<GeoData> {
 
 /**
  * 将GeoJSON坐标转换为SVG路径
+ *
+ * tolerance 为简化容差（SVG坐标单位），为0时不简化。
  */
-export function coordinatesToSVGPath(coordinates: number[][][], bounds: MapBounds): string {
+export function coordinatesToSVGPath(coordinates: number[][][], bounds: MapBounds, tolerance: number = 0): string {
   const paths: string[] = [];
   
   coordinates.forEach(polygon => {
-    polygon.forEach((ring, ringIndex) => {
-      const pathCommands: string[] = [];
+    polygon.forEach(ring => {
+      const points = (ring as unknown as [number, number][]).map(([lng, lat]) =>
+        projectCoordinate({ lat, lng }, bounds)
+      );
+      const simplified = simplifyRing(points, tolerance);
       
-      ring.forEach((coord, coordIndex) => {
-        const [lng, lat] = coord as unknown as [number, number];
-        const { x, y } = projectCoordinate({ lat, lng }, bounds);
-        
-        if (coordIndex === 0) {
-          pathCommands.push(`M ${x} ${y}`);
-        } else {
-          pathCommands.push(`L ${x} ${y}`);
-        }
-      });
+      const pathCommands = simplified.map(({ x, y }, index) =>
+        `${index === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`
+      );
       
       pathCommands.push('Z'); // 闭合路径
       paths.push(pathCommands.join(' '));
@@ -62,8 +89,81 @@ export function coordinatesToSVGPath(coordinates: number[][][], bounds: MapBound
   return paths.join(' ');
 }
 
+/**
+ * 预先投影好的要素，供渲染直接使用
+ */
+export interface ProjectedFeature {
+  feature: GeoFeature;
+  /** SVG路径 */
+  path: string;
+  /** 标签位置（区域中心点投影） */
+  label: { x: number; y: number } | null;
+}
+
+// 投影结果缓存：同一要素在相同边界和容差下只计算一次
+const projectionCache = new WeakMap<GeoFeature, Map<string, ProjectedFeature>>();
+
+// 每个要素保留的投影结果数量，画布尺寸变化会产生新的键，只保留最近使用的几组
+const MAX_PROJECTIONS_PER_FEATURE = 4;
+
+/**
+ * 生成边界和容差对应的缓存键
+ */
+function getProjectionKey(bounds: MapBounds, tolerance: number): string {
+  const { projection, referenceLat, scale, translateX, translateY, width, height } = bounds;
+  return [projection.type, referenceLat, scale, translateX, translateY, width, height, tolerance].join('|');
+}
+
+/**
+ * 批量投影要素并缓存结果
+ */
+export function projectFeatures(features: GeoFeature[], bounds: MapBounds, tolerance: number = 0): ProjectedFeature[] {
+  const key = getProjectionKey(bounds, tolerance);
+
+  return features.map(feature => {
+    let entries = projectionCache.get(feature);
+    if (!entries) {
+      entries = new Map();
+      projectionCache.set(feature, entries);
+    }
+
+    let projected = entries.get(key);
+    if (projected) {
+      // 重新插入，使 Map 的顺序即最近使用顺序
+      entries.delete(key);
+    } else {
+      const center = feature.properties.center;
+      projected = {
+        feature,
+        path: coordinatesToSVGPath(feature.geometry.coordinates as unknown as number[][][], bounds, tolerance),
+        label: center ? projectCoordinate({ lat: center[1], lng: center[0] }, bounds) : null
+      };
+      if (entries.size >= MAX_PROJECTIONS_PER_FEATURE) {
+        entries.delete(entries.keys().next().value as string);
+      }
+    }
+    entries.set(key, projected);
+
+    return projected;
+  });
+}
+
+/**
+ * 根据缩放级别计算简化容差
+ *
+ * 缩放级别按2的幂分档，避免滚轮每次缩放都重新生成路径；
+ * 放大后容差同比减小，保证屏幕上的误差约为半个像素。
+ */
+export function getSimplificationTolerance(zoomLevel: number, screenTolerance: number = 0.5): number {
+  const bucket = Math.pow(2, Math.floor(Math.log2(Math.max(zoomLevel, 0.125))));
+  return screenTolerance / bucket;
+}
+
 /**
  * 地图边界接口
+ *
+ * 经纬度范围对应整个SVG画布（已按画布宽高比扩展），
+ * scale、translateX、translateY 描述投影平面到SVG坐标的变换。
  */
 export interface MapBounds {
   minLat: number;
@@ -72,12 +172,33 @@ export interface MapBounds {
   maxLng: number;
   width: number;
   height: number;
+  projection: Projection;
+  /** 投影参考纬度（等距投影使用） */
+  referenceLat: number;
+  scale: number;
+  translateX: number;
+  translateY: number;
+}
+
+/**
+ * 边界计算选项
+ */
+export interface BoundsOptions {
+  /** SVG画布宽度，默认800 */
+  width?: number;
+  /** SVG画布高度，默认600 */
+  height?: number;
+  /** 投影类型，默认 Web Mercator */
+  projection?: ProjectionType;
 }
 
 /**
  * 计算GeoJSON数据的边界
+ *
+ * 数据按统一比例缩放并在画布中居中，不会因画布宽高比而拉伸变形。
  */
-export function calculateBounds(geoData: GeoData, padding: number = 0.1): MapBounds {
+export function calculateBounds(geoData: GeoData, padding: number = 0.1, options: BoundsOptions = {}): MapBounds {
+  const { width = 800, height = 600, projection: projectionType = 'mercator' } = options;
   let minLat = Infinity;
   let maxLat = -Infinity;
   let minLng = Infinity;
@@ -99,17 +220,50 @@ export function calculateBounds(geoData: GeoData, padding: number = 0.1): MapBou
     }
   });
 
+  const referenceLat = (minLat + maxLat) / 2;
+  const projection = createProjection(projectionType, referenceLat);
+
+  // 投影平面上的范围（两种投影在经纬方向上都是单调的，取角点即可）
+  const lowerLeft = projection.project({ lat: minLat, lng: minLng });
+  const upperRight = projection.project({ lat: maxLat, lng: maxLng });
+
   // 添加边距
-  const latPadding = (maxLat - minLat) * padding;
-  const lngPadding = (maxLng - minLng) * padding;
+  const xPadding = (upperRight.x - lowerLeft.x) * padding;
+  const yPadding = (upperRight.y - lowerLeft.y) * padding;
+  const projectedWidth = upperRight.x - lowerLeft.x + xPadding * 2;
+  const projectedHeight = upperRight.y - lowerLeft.y + yPadding * 2;
+
+  // 统一缩放比例，并使数据在画布中居中
+  const scale = Math.min(width / projectedWidth, height / projectedHeight);
+  const centerX = (lowerLeft.x + upperRight.x) / 2;
+  const centerY = (lowerLeft.y + upperRight.y) / 2;
+  const translateX = width / 2 - centerX * scale;
+  const translateY = height / 2 + centerY * scale;
+
+  const bounds: MapBounds = {
+    minLat,
+    maxLat,
+    minLng,
+    maxLng,
+    width,
+    height,
+    projection,
+    referenceLat,
+    scale,
+    translateX,
+    translateY
+  };
+
+  // 画布四角对应的经纬度范围
+  const topLeft = unprojectPoint({ x: 0, y: 0 }, bounds);
+  const bottomRight = unprojectPoint({ x: width, y: height }, bounds);
 
   return {
-    minLat: minLat - latPadding,
-    maxLat: maxLat + latPadding,
-    minLng: minLng - lngPadding,
-    maxLng: maxLng + lngPadding,
-    width: 800, // 默认SVG宽度
-    height: 600 // 默认SVG高度
+    ...bounds,
+    minLat: bottomRight.lat,
+    maxLat: topLeft.lat,
+    minLng: topLeft.lng,
+    maxLng: bottomRight.lng
   };
 }
 
@@ -117,15 +271,27 @@ export function calculateBounds(geoData: GeoData, padding: number = 0.1): MapBou
  * 将地理坐标投影到SVG坐标
  */
 export function projectCoordinate(coord: Coordinates, bounds: MapBounds): { x: number; y: number } {
-  const { lat, lng } = coord;
-  const { minLat, maxLat, minLng, maxLng, width, height } = bounds;
+  const { projection, scale, translateX, translateY } = bounds;
+  const point = projection.project(coord);
   
-  const x = ((lng - minLng) / (maxLng - minLng)) * width;
-  const y = height - ((lat - minLat) / (maxLat - minLat)) * height; // 翻转Y轴
+  const x = point.x * scale + translateX;
+  const y = translateY - point.y * scale; // 翻转Y轴
   
   return { x, y };
 }
 
+/**
+ * 将SVG坐标反投影为地理坐标
+ */
+export function unprojectPoint(point: { x: number; y: number }, bounds: MapBounds): Coordinates {
+  const { projection, scale, translateX, translateY } = bounds;
+
+  return projection.invert({
+    x: (point.x - translateX) / scale,
+    y: (translateY - point.y) / scale
+  });
+}
+
 /**
  * 检查点是否在多边形内（射线法）
  */
@@ -147,6 +313,25 @@ export function pointInPolygon(point: { x: number; y: number }, polygon: { x: nu
   return inside;
 }
 
+/**
+ * 检查地理坐标是否在要素范围内（外环之内且不在洞内）
+ */
+export function featureContainsCoordinate(feature: GeoFeature, coord: Coordinates): boolean {
+  const point = { x: coord.lng, y: coord.lat };
+
+  return feature.geometry.coordinates.some(polygon => {
+    const [outer, ...holes] = polygon.map(ring => ring.map(([lng, lat]) => ({ x: lng, y: lat })));
+    return pointInPolygon(point, outer) && !holes.some(hole => pointInPolygon(point, hole));
+  });
+}
+
+/**
+ * 查找包含指定地理坐标的要素
+ */
+export function findFeatureAtCoordinate(features: GeoFeature[], coord: Coordinates): GeoFeature | undefined {
+  return features.find(feature => featureContainsCoordinate(feature, coord));
+}
+
 /**
  * 获取区域中心点坐标
  */
@@ -155,19 +340,141 @@ export function getRegionCenter(feature: GeoFeature): Coordinates {
   return { lat, lng };
 }
 
+/**
+ * 方向键对应的导航方向
+ */
+export type MapDirection = 'up' | 'down' | 'left' | 'right';
+
+/**
+ * 根据共享边界计算要素的相邻关系，按 adcode 索引
+ *
+ * 不同数据文件的边界顶点并不完全重合，顶点按 precision 位小数取整后比较，
+ * 共享至少 minSharedVertices 个顶点才视为相邻，以排除仅有一点接触的情况。
+ */
+export function computeAdjacency(
+  features: GeoFeature[],
+  precision: number = 3,
+  minSharedVertices: number = 2
+): Record<number, number[]> {
+  const owners = new Map<string, number[]>();
+
+  features.forEach(feature => {
+    const adcode = feature.properties.adcode;
+    const seen = new Set<string>();
+    feature.geometry.coordinates.forEach(polygon => polygon.forEach(ring => ring.forEach(([lng, lat]) => {
+      const key = `${lng.toFixed(precision)},${lat.toFixed(precision)}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      const list = owners.get(key);
+      if (list) list.push(adcode);
+      else owners.set(key, [adcode]);
+    })));
+  });
+
+  // 统计每对要素共享的顶点数
+  const shared = new Map<number, Map<number, number>>();
+  owners.forEach(list => {
+    if (list.length < 2) return;
+    list.forEach(a => list.forEach(b => {
+      if (a === b) return;
+      const counts = shared.get(a) ?? new Map<number, number>();
+      counts.set(b, (counts.get(b) ?? 0) + 1);
+      shared.set(a, counts);
+    }));
+  });
+
+  const adjacency: Record<number, number[]> = {};
+  features.forEach(feature => {
+    const counts = shared.get(feature.properties.adcode);
+    adjacency[feature.properties.adcode] = counts
+      ? Array.from(counts).filter(([, count]) => count >= minSharedVertices).map(([adcode]) => adcode)
+      : [];
+  });
+  return adjacency;
+}
+
+/**
+ * 按地理位置排序要素：自北向南分行，行内自西向东
+ */
+export function sortFeaturesGeographically(features: GeoFeature[]): GeoFeature[] {
+  if (features.length <= 1) return features.slice();
+
+  const centers = features.map(getRegionCenter);
+  const lats = centers.map(center => center.lat);
+  const maxLat = Math.max(...lats);
+  // 行高随要素数量调整，大致排成方阵
+  const rowHeight = (maxLat - Math.min(...lats)) / Math.ceil(Math.sqrt(features.length)) || 1;
+
+  return features
+    .map((feature, index) => ({ feature, center: centers[index], row: Math.floor((maxLat - centers[index].lat) / rowHeight) }))
+    .sort((a, b) => a.row - b.row || a.center.lng - b.center.lng)
+    .map(({ feature }) => feature);
+}
+
+const DIRECTION_VECTORS: Record<MapDirection, { x: number; y: number }> = {
+  up: { x: 0, y: 1 },
+  down: { x: 0, y: -1 },
+  left: { x: -1, y: 0 },
+  right: { x: 1, y: 0 }
+};
+
+/**
+ * 查找指定方向上最合适的要素，优先在相邻要素中选择
+ *
+ * 候选要素中心须落在方向两侧 60° 以内，距离越近、越接近正方向越优先；
+ * 相邻要素中没有符合的（如海岛）再从全部要素中查找。
+ */
+export function findFeatureInDirection(
+  from: GeoFeature,
+  direction: MapDirection,
+  features: GeoFeature[],
+  adjacency: Record<number, number[]>
+): GeoFeature | undefined {
+  const origin = getRegionCenter(from);
+  const cosLat = Math.cos(origin.lat * Math.PI / 180);
+  const vector = DIRECTION_VECTORS[direction];
+
+  const pick = (candidates: GeoFeature[]) => {
+    let best: GeoFeature | undefined;
+    let bestScore = Infinity;
+
+    candidates.forEach(candidate => {
+      if (candidate === from) return;
+      const center = getRegionCenter(candidate);
+      const dx = (center.lng - origin.lng) * cosLat;
+      const dy = center.lat - origin.lat;
+      const length = Math.hypot(dx, dy);
+      if (length === 0) return;
+
+      const cosAngle = (dx * vector.x + dy * vector.y) / length;
+      if (cosAngle < 0.5) return;
+
+      const score = length / (cosAngle * cosAngle);
+      if (score < bestScore) {
+        bestScore = score;
+        best = candidate;
+      }
+    });
+    return best;
+  };
+
+  const neighbors = new Set(adjacency[from.properties.adcode] ?? []);
+  return pick(features.filter(feature => neighbors.has(feature.properties.adcode))) ?? pick(features);
+}
+
 /**
  * 加载所有城市的区县级地图数据
  */
-export async function loadCombinedMapData(): Promise<{
+export async function loadCombinedMapData(loadFile: GeoFileLoader = loadGeoFile): Promise<{
   cities: Record<CityType, GeoData>;
   combined: GeoData;
 }> {
-  const cityNames: CityType[] = ['shanghai', 'hangzhou', 'huzhou', 'jiaxing', 'ningbo', 'shaoxing', 'zhoushan'];
+  const cityNames: CityType[] = REGION_LAYERS.map(layer => layer.id);
   
   try {
     // 并行加载所有城市的数据
     const cityDataArray = await Promise.all(
-      cityNames.map(city => loadGeoData(city))
+      cityNames.map(city => loadGeoData(city, loadFile))
     );
     
     // 创建城市数据映射
@@ -189,4 +496,76 @@ export async function loadCombinedMapData(): Promise<{
     console.error('Error loading combined map data:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * 市、区县两级的地图数据
+ */
+export interface RegionHierarchy {
+  /** 市级要素（城市轮廓），按清单顺序排列 */
+  cities: GeoFeature[];
+  /** 各城市下辖的区县要素，按城市 adcode 索引；无区县数据的城市为其自身轮廓 */
+  districts: Record<number, GeoFeature[]>;
+}
+
+/**
+ * 将多个区县合并为一个城市要素（用于没有市级轮廓数据的城市）
+ */
+function mergeDistrictFeatures(layer: RegionLayer, features: GeoFeature[]): GeoFeature {
+  const center: [number, number] = [layer.center.lng, layer.center.lat];
+
+  return {
+    type: 'Feature',
+    properties: {
+      adcode: layer.adcode,
+      name: layer.name,
+      center,
+      centroid: center,
+      childrenNum: features.length,
+      level: 'city',
+      subFeatureIndex: 0,
+      acroutes: features[0]?.properties.acroutes.slice(0, 1) ?? [],
+      site: ''
+    },
+    geometry: {
+      type: 'MultiPolygon',
+      coordinates: features.flatMap(feature => feature.geometry.coordinates)
+    }
+  };
+}
+
+/**
+ * 加载市、区县两级地图数据，用于逐级下钻
+ */
+export async function loadRegionHierarchy(loadFile: GeoFileLoader = loadGeoFile): Promise<RegionHierarchy> {
+  const { cities } = await loadCombinedMapData(loadFile);
+
+  const entries = await Promise.all(
+    REGION_LAYERS.map(async (layer: RegionLayer) => {
+      const districts = cities[layer.id as CityType].features;
+
+      let outline: GeoFeature | undefined;
+      if (layer.featureAdcode !== undefined) {
+        outline = districts[0];
+      } else if (layer.outlineFile) {
+        const outlineData = await loadFile(layer.outlineFile);
+        outline = outlineData.features.find(feature => feature.properties.adcode === layer.adcode);
+      }
+
+      return {
+        outline: outline ?? mergeDistrictFeatures(layer, districts),
+        districts
+      };
+    })
+  );
+
+  const districts: Record<number, GeoFeature[]> = {};
+  entries.forEach(({ outline, districts: features }) => {
+    districts[outline.properties.adcode] = features;
+  });
+
+  return {
+    cities: entries.map(entry => entry.outline),
+    districts
+  };
+}
@@ -0,0 +1,75 @@
+import { Coordinates } from '@/types';
+
+/**
+ * 支持的投影类型
+ */
+export type ProjectionType = 'mercator' | 'equirectangular';
+
+/**
+ * 投影平面坐标（弧度单位，y 轴向北为正）
+ */
+export interface ProjectedPoint {
+  x: number;
+  y: number;
+}
+
+/**
+ * 地图投影：经纬度与投影平面坐标互相转换
+ */
+export interface Projection {
+  type: ProjectionType;
+  project(coord: Coordinates): ProjectedPoint;
+  invert(point: ProjectedPoint): Coordinates;
+}
+
+const DEG_TO_RAD = Math.PI / 180;
+const RAD_TO_DEG = 180 / Math.PI;
+
+// Web Mercator 的有效纬度范围
+const MAX_MERCATOR_LAT = 85.05112878;
+
+/**
+ * Web Mercator 投影，保角，适合与常见瓦片地图对照
+ */
+export const mercatorProjection: Projection = {
+  type: 'mercator',
+  project({ lat, lng }) {
+    const clampedLat = Math.max(-MAX_MERCATOR_LAT, Math.min(MAX_MERCATOR_LAT, lat));
+    return {
+      x: lng * DEG_TO_RAD,
+      y: Math.log(Math.tan(Math.PI / 4 + (clampedLat * DEG_TO_RAD) / 2))
+    };
+  },
+  invert({ x, y }) {
+    return {
+      lng: x * RAD_TO_DEG,
+      lat: (2 * Math.atan(Math.exp(y)) - Math.PI / 2) * RAD_TO_DEG
+    };
+  }
+};
+
+/**
+ * 等距圆柱投影，经度按参考纬度的余弦压缩
+ *
+ * 在长三角这样跨度不大的区域内，面积和形状的变形都很小。
+ */
+export function createEquirectangularProjection(referenceLat: number): Projection {
+  const cosLat = Math.cos(referenceLat * DEG_TO_RAD);
+
+  return {
+    type: 'equirectangular',
+    project({ lat, lng }) {
+      return { x: lng * DEG_TO_RAD * cosLat, y: lat * DEG_TO_RAD };
+    },
+    invert({ x, y }) {
+      return { lng: (x / cosLat) * RAD_TO_DEG, lat: y * RAD_TO_DEG };
+    }
+  };
+}
+
+/**
+ * 根据类型创建投影
+ */
+export function createProjection(type: ProjectionType, referenceLat: number = 0): Projection {
+  return type === 'mercator' ? mercatorProjection : createEquirectangularProjection(referenceLat);
+}
@@ -0,0 +1,124 @@
+import { GeoFeature } from '@/types';
+import { GeoFileLoader, RegionHierarchy, loadRegionHierarchy } from './map-utils';
+
+/**
+ * 索引中的单个区域
+ */
+export interface RegionIndexEntry {
+  feature: GeoFeature;
+  /** 所属城市的市级要素，城市自身为 null */
+  city: GeoFeature | null;
+  /** 上级行政区 adcode，由国家到直接上级排列（来自 acroutes） */
+  parents: number[];
+  /** 是否为最细一级（区县，或无区县数据的城市） */
+  isLeaf: boolean;
+}
+
+/**
+ * 按 adcode 查找区域要素、所属城市和上级链
+ *
+ * 区县名称在不同城市间可能重复（如上海和舟山都有普陀区），
+ * 选择、悬停、回调、URL 和缓存都应以 adcode 作为标识，名称只用于显示。
+ */
+export class RegionIndex {
+  private readonly entries = new Map<number, RegionIndexEntry>();
+  // 各名称出现的次数，用于判断显示时是否需要附带城市名
+  private readonly nameCounts = new Map<string, number>();
+
+  constructor(readonly hierarchy: RegionHierarchy) {
+    hierarchy.cities.forEach(city => {
+      const cityAdcode = city.properties.adcode;
+      const districts = hierarchy.districts[cityAdcode] ?? [];
+      const hasDistricts = districts.some(district => district.properties.adcode !== cityAdcode);
+
+      this.add({ feature: city, city: null, parents: city.properties.acroutes, isLeaf: !hasDistricts });
+      districts.forEach(district => {
+        if (district.properties.adcode === cityAdcode) return;
+        this.add({ feature: district, city, parents: district.properties.acroutes, isLeaf: true });
+      });
+    });
+  }
+
+  private add(entry: RegionIndexEntry): void {
+    const { adcode, name } = entry.feature.properties;
+    if (this.entries.has(adcode)) return;
+    this.entries.set(adcode, entry);
+    this.nameCounts.set(name, (this.nameCounts.get(name) ?? 0) + 1);
+  }
+
+  get(adcode: number): RegionIndexEntry | undefined {
+    return this.entries.get(adcode);
+  }
+
+  has(adcode: number): boolean {
+    return this.entries.has(adcode);
+  }
+
+  /**
+   * 区域名称
+   */
+  getName(adcode: number): string | undefined {
+    return this.entries.get(adcode)?.feature.properties.name;
+  }
+
+  /**
+   * 显示名称，重名的区县附带所属城市，如“普陀区（舟山市）”
+   */
+  getLabel(adcode: number): string | undefined {
+    const entry = this.entries.get(adcode);
+    if (!entry) return undefined;
+
+    const { name } = entry.feature.properties;
+    return entry.city && (this.nameCounts.get(name) ?? 0) > 1
+      ? `${name}（${entry.city.properties.name}）`
+      : name;
+  }
+
+  /**
+   * 索引中存在的上级要素，由高到低排列
+   */
+  getParentChain(adcode: number): GeoFeature[] {
+    const entry = this.entries.get(adcode);
+    if (!entry) return [];
+    return entry.parents.flatMap(parent => {
+      const feature = this.entries.get(parent)?.feature;
+      return feature ? [feature] : [];
+    });
+  }
+
+  /**
+   * 所属城市的 adcode，城市自身返回其 adcode
+   */
+  getCityAdcode(adcode: number): number | undefined {
+    const entry = this.entries.get(adcode);
+    if (!entry) return undefined;
+    return entry.city?.properties.adcode ?? entry.feature.properties.adcode;
+  }
+
+  /**
+   * 最细一级的全部要素，即获取天气数据的区域
+   */
+  getLeafFeatures(): GeoFeature[] {
+    return [...this.entries.values()].filter(entry => entry.isLeaf).map(entry => entry.feature);
+  }
+}
+
+let defaultIndex: Promise<RegionIndex> | null = null;
+
+/**
+ * 加载区域索引，默认加载器的结果在页面内共享
+ */
+export function loadRegionIndex(loadFile?: GeoFileLoader): Promise<RegionIndex> {
+  if (loadFile) {
+    return loadRegionHierarchy(loadFile).then(hierarchy => new RegionIndex(hierarchy));
+  }
+
+  if (!defaultIndex) {
+    defaultIndex = loadRegionHierarchy().then(hierarchy => new RegionIndex(hierarchy));
+    // 加载失败时允许重试
+    defaultIndex.catch(() => {
+      defaultIndex = null;
+    });
+  }
+  return defaultIndex;
+}
@@ -0,0 +1,187 @@
+import { Coordinates } from '@/types';
+
+/**
+ * 地图图层（地级行政区）配置
+ */
+export interface RegionLayer {
+  id: string;
+  /** 显示名称 */
+  name: string;
+  /** 行政区划代码 */
+  adcode: number;
+  /** 下辖区县 adcode 的共同前缀，用于判断要素所属城市 */
+  adcodePrefix: string;
+  /** 区域模式下的填充色 */
+  color: string;
+  /** 城市中心坐标 */
+  center: Coordinates;
+  /** public/data 下的 GeoJSON 文件名 */
+  file: string;
+  /** 文件为省级数据时，只取该 adcode 对应的要素 */
+  featureAdcode?: number;
+  /** 包含该城市市级轮廓的文件（file 为区县数据时使用），缺省时由区县合并而成 */
+  outlineFile?: string;
+}
+
+/**
+ * 可用的地图图层清单
+ *
+ * 有区县级数据的城市使用单独的城市文件，其余城市暂以省级文件中的市级轮廓显示。
+ * 市级轮廓用于逐级下钻时的城市层级视图。
+ */
+export const REGION_LAYERS = [
+  {
+    id: 'shanghai',
+    name: '上海市',
+    adcode: 310000,
+    adcodePrefix: '310',
+    color: '#e0f2fe',
+    center: { lat: 31.2304, lng: 121.4737 },
+    file: 'shanghai.geoJson'
+  },
+  {
+    id: 'hangzhou',
+    name: '杭州市',
+    adcode: 330100,
+    adcodePrefix: '3301',
+    color: '#f0f9ff',
+    center: { lat: 30.2741, lng: 120.1551 },
+    file: '杭州市.geoJson',
+    outlineFile: 'zhejiang.geoJson'
+  },
+  {
+    id: 'ningbo',
+    name: '宁波市',
+    adcode: 330200,
+    adcodePrefix: '3302',
+    color: '#fdf2f8',
+    center: { lat: 29.8683, lng: 121.5440 },
+    file: '宁波市.geoJson',
+    outlineFile: 'zhejiang.geoJson'
+  },
+  {
+    id: 'wenzhou',
+    name: '温州市',
+    adcode: 330300,
+    adcodePrefix: '3303',
+    color: '#fff7ed',
+    center: { lat: 28.0000, lng: 120.6700 },
+    file: 'zhejiang.geoJson',
+    featureAdcode: 330300
+  },
+  {
+    id: 'jiaxing',
+    name: '嘉兴市',
+    adcode: 330400,
+    adcodePrefix: '3304',
+    color: '#fef7cd',
+    center: { lat: 30.7527, lng: 120.7550 },
+    file: '嘉兴市.geoJson',
+    outlineFile: 'zhejiang.geoJson'
+  },
+  {
+    id: 'huzhou',
+    name: '湖州市',
+    adcode: 330500,
+    adcodePrefix: '3305',
+    color: '#ecfdf5',
+    center: { lat: 30.8703, lng: 120.0873 },
+    file: '湖州市.geoJson',
+    outlineFile: 'zhejiang.geoJson'
+  },
+  {
+    id: 'shaoxing',
+    name: '绍兴市',
+    adcode: 330600,
+    adcodePrefix: '3306',
+    color: '#f3e8ff',
+    center: { lat: 30.0023, lng: 120.5810 },
+    file: '绍兴市.geoJson',
+    outlineFile: 'zhejiang.geoJson'
+  },
+  {
+    id: 'jinhua',
+    name: '金华市',
+    adcode: 330700,
+    adcodePrefix: '3307',
+    color: '#fef2f2',
+    center: { lat: 29.1028, lng: 119.6498 },
+    file: 'zhejiang.geoJson',
+    featureAdcode: 330700
+  },
+  {
+    id: 'quzhou',
+    name: '衢州市',
+    adcode: 330800,
+    adcodePrefix: '3308',
+    color: '#f0fdfa',
+    center: { lat: 28.9700, lng: 118.8700 },
+    file: 'zhejiang.geoJson',
+    featureAdcode: 330800
+  },
+  {
+    id: 'zhoushan',
+    name: '舟山市',
+    adcode: 330900,
+    adcodePrefix: '3309',
+    color: '#ecfccb',
+    center: { lat: 30.0360, lng: 122.2070 },
+    file: '舟山市.geoJson',
+    outlineFile: 'zhejiang.geoJson'
+  },
+  {
+    id: 'taizhou',
+    name: '台州市',
+    adcode: 331000,
+    adcodePrefix: '3310',
+    color: '#eef2ff',
+    center: { lat: 28.6129, lng: 121.4200 },
+    file: 'zhejiang.geoJson',
+    featureAdcode: 331000
+  },
+  {
+    id: 'lishui',
+    name: '丽水市',
+    adcode: 331100,
+    adcodePrefix: '3311',
+    color: '#fdf4ff',
+    center: { lat: 28.4517, lng: 119.9220 },
+    file: 'zhejiang.geoJson',
+    featureAdcode: 331100
+  }
+] as const satisfies readonly RegionLayer[];
+
+/**
+ * 支持的城市类型
+ */
+export type CityType = (typeof REGION_LAYERS)[number]['id'];
+
+/**
+ * 未归属任何图层时的填充色
+ */
+export const UNKNOWN_REGION_COLOR = '#f8fafc';
+
+/**
+ * 根据 adcode 查找所属城市图层
+ */
+export function getRegionLayer(adcode: number): RegionLayer | undefined {
+  const code = String(adcode);
+  return REGION_LAYERS.find(layer => code.startsWith(layer.adcodePrefix));
+}
+
+/**
+ * 图层用到的全部 GeoJSON 文件名（去重），供离线缓存预先下载
+ */
+export function getRegionDataFiles(): string[] {
+  const files = REGION_LAYERS.flatMap(layer =>
+    'outlineFile' in layer ? [layer.file, layer.outlineFile] : [layer.file]
+  );
+  return [...new Set(files)];
+}
+
+/**
+ * 根据城市名称查找图层，名称可省略"市"
+ */
+export function findRegionLayerByName(name: string): RegionLayer | undefined {
+  return REGION_LAYERS.find(layer => layer.name === name || layer.name === `${name}市`);
+}
@@ -0,0 +1,40 @@
+import { WEATHER_PROVIDERS, WeatherProviderId } from './providers/types';
+
+/**
+ * 服务端配置，从环境变量读取
+ *
+ * 上游地址可指向本地模拟服务或自建的 Open-Meteo 实例，便于离线开发和测试。
+ */
+export interface ServerConfig {
+  /** 天气数据源，默认 open-meteo */
+  weatherProvider: WeatherProviderId;
+  /** 预报接口地址 */
+  forecastUrl: string;
+  /** 地理编码接口地址 */
+  geocodingUrl: string;
+  /** 上游请求超时（毫秒） */
+  upstreamTimeout: number;
+}
+
+const DEFAULT_FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const DEFAULT_GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const DEFAULT_UPSTREAM_TIMEOUT = 10_000;
+
+function isWeatherProviderId(value: string | undefined): value is WeatherProviderId {
+  return WEATHER_PROVIDERS.some(id => id === value);
+}
+
+export function getServerConfig(): ServerConfig {
+  const timeout = Number(process.env.UPSTREAM_TIMEOUT_MS);
+  const provider = process.env.WEATHER_PROVIDER;
+  if (provider && !isWeatherProviderId(provider)) {
+    console.warn(`Unknown WEATHER_PROVIDER "${provider}", falling back to open-meteo`);
+  }
+
+  return {
+    weatherProvider: isWeatherProviderId(provider) ? provider : 'open-meteo',
+    forecastUrl: process.env.OPEN_METEO_FORECAST_URL || DEFAULT_FORECAST_URL,
+    geocodingUrl: process.env.OPEN_METEO_GEOCODING_URL || DEFAULT_GEOCODING_URL,
+    upstreamTimeout: Number.isFinite(timeout) && timeout > 0 ? timeout : DEFAULT_UPSTREAM_TIMEOUT
+  };
+}
@@ -0,0 +1,19 @@
+/**
+ * 上游服务请求失败
+ */
+export class UpstreamError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
+    this.name = 'UpstreamError';
+  }
+}
+
+/**
+ * 上游限流（429），retryAfter 为建议的重试等待秒数
+ */
+export class UpstreamRateLimitError extends UpstreamError {
+  constructor(readonly retryAfter: number) {
+    super('Upstream rate limit exceeded', 429);
+    this.name = 'UpstreamRateLimitError';
+  }
+}
@@ -0,0 +1,72 @@
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { GeoData, GeoFeature } from '@/types';
+import { GeoFileLoader, RegionHierarchy, loadRegionHierarchy } from '@/lib/map-utils';
+import { RegionIndex, loadRegionIndex } from '@/lib/region-index';
+
+const GEO_DATA_DIR = path.join(process.cwd(), 'public', 'data');
+
+// 服务端进程内缓存解析结果，文件随部署更新
+const geoFileCache = new Map<string, Promise<GeoData>>();
+
+/**
+ * 从 public/data 读取 GeoJSON 文件（服务端）
+ */
+export const readGeoFile: GeoFileLoader = fileName => {
+  let request = geoFileCache.get(fileName);
+
+  if (!request) {
+    request = readFile(path.join(GEO_DATA_DIR, path.basename(fileName)), 'utf8')
+      // 数据文件带有 UTF-8 BOM，JSON.parse 不接受
+      .then(text => JSON.parse(text.replace(/^\uFEFF/, '')) as GeoData);
+    request.catch(() => geoFileCache.delete(fileName));
+    geoFileCache.set(fileName, request);
+  }
+
+  return request;
+};
+
+/**
+ * 在服务端加载市、区县两级地图数据
+ */
+export function loadServerRegionHierarchy(): Promise<RegionHierarchy> {
+  return loadRegionHierarchy(readGeoFile);
+}
+
+/**
+ * 区县及其所属城市
+ */
+export interface RegionLookup {
+  feature: GeoFeature;
+  city: GeoFeature;
+  /** 同一城市下的全部区县，用于绘制周边轮廓 */
+  siblings: GeoFeature[];
+}
+
+let serverRegionIndex: Promise<RegionIndex> | null = null;
+
+/**
+ * 在服务端加载区域索引，进程内共享
+ */
+export function loadServerRegionIndex(): Promise<RegionIndex> {
+  if (!serverRegionIndex) {
+    serverRegionIndex = loadRegionIndex(readGeoFile);
+    serverRegionIndex.catch(() => {
+      serverRegionIndex = null;
+    });
+  }
+  return serverRegionIndex;
+}
+
+/**
+ * 按 adcode 查找区县（或无区县数据的城市）及其所属城市
+ */
+export async function findServerRegion(adcode: number): Promise<RegionLookup | null> {
+  const index = await loadServerRegionIndex();
+  const entry = index.get(adcode);
+  if (!entry?.isLeaf) return null;
+
+  const city = entry.city ?? entry.feature;
+  const siblings = index.hierarchy.districts[city.properties.adcode] ?? [entry.feature];
+  return { feature: entry.feature, city, siblings };
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { Coordinates, WeatherErrorCode } from '@/types';
+import { UpstreamError, UpstreamRateLimitError } from './errors';
+
+/**
+ * 接口错误响应体：code 供客户端显示对应语言的提示，error 为便于排查的说明
+ */
+export interface ApiErrorBody {
+  code: WeatherErrorCode;
+  error: string;
+}
+
+export function badRequest(message: string): NextResponse<ApiErrorBody> {
+  return NextResponse.json({ code: 'badRequest', error: message }, { status: 400 });
+}
+
+/**
+ * 将上游错误转换为响应：限流返回 429 并透传 Retry-After，其余返回 502
+ */
+export function upstreamErrorResponse(error: unknown): NextResponse<ApiErrorBody> {
+  if (error instanceof UpstreamRateLimitError) {
+    return NextResponse.json(
+      { code: 'rateLimited', error: 'Upstream rate limit exceeded' },
+      { status: 429, headers: { 'Retry-After': String(error.retryAfter) } }
+    );
+  }
+
+  console.error('Upstream request failed:', error);
+  // 上游超时（AbortSignal.timeout）返回 504
+  const isTimeout = error instanceof Error && error.name === 'TimeoutError';
+  const status = isTimeout || (error instanceof UpstreamError && error.status === 504) ? 504 : 502;
+  return NextResponse.json({ code: 'unavailable', error: 'Upstream service unavailable' }, { status });
+}
+
+/**
+ * 校验坐标取值范围
+ */
+export function toCoordinates(lat: unknown, lng: unknown): Coordinates | null {
+  const latitude = typeof lat === 'string' && lat.trim() !== '' ? Number(lat) : lat;
+  const longitude = typeof lng === 'string' && lng.trim() !== '' ? Number(lng) : lng;
+
+  if (typeof latitude !== 'number' || typeof longitude !== 'number') return null;
+  if (!Number.isFinite(latitude) || !Number.isFinite(longitude)) return null;
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+  return { lat: latitude, lng: longitude };
+}
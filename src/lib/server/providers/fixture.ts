@@ -0,0 +1,155 @@
+import { BatchWeatherResult, Coordinates, SearchResult, WeatherData } from '@/types';
+import { parseWeatherData } from '@/lib/api/normalize';
+import { getRegionLayer } from '@/lib/regions';
+import { getRegionCenter } from '@/lib/map-utils';
+import { loadServerRegionHierarchy } from '../geo';
+import { WeatherProvider } from './types';
+import fixture from './fixtures/forecast.json';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// 预报时间为上海当地时间
+const localTimeFormat = new Intl.DateTimeFormat('sv-SE', {
+  timeZone: 'Asia/Shanghai',
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+  hourCycle: 'h23'
+});
+
+/**
+ * 当地时间，格式与预报一致（YYYY-MM-DDTHH:mm）
+ */
+function formatLocalTime(timestamp: number): string {
+  return localTimeFormat.format(timestamp).replace(' ', 'T');
+}
+
+/**
+ * 将 YYYY-MM-DD 或 YYYY-MM-DDTHH:mm 平移若干天（按 UTC 计算，不受服务器时区影响）
+ */
+function shiftTime(time: string, days: number): string {
+  const timestamp = Date.parse(time.length === 10 ? `${time}T00:00Z` : `${time}Z`);
+  return new Date(timestamp + days * DAY_MS).toISOString().slice(0, time.length);
+}
+
+/**
+ * 由坐标得到 [0, 1) 之间的稳定伪随机数
+ */
+function coordinateNoise({ lat, lng }: Coordinates): number {
+  const value = Math.sin(lat * 12.9898 + lng * 78.233) * 43758.5453;
+  return value - Math.floor(value);
+}
+
+/**
+ * 基于固定样例数据的数据源，用于测试、演示和离线开发
+ *
+ * 样例日期平移到当天，并按坐标对气温、湿度、降水、风速做确定性的调整，
+ * 使专题地图上不同区县的颜色有所区别。地名搜索在本地区划数据中按名称匹配。
+ */
+export class FixtureProvider implements WeatherProvider {
+  readonly id = 'fixture';
+
+  private readonly base: WeatherData = parseWeatherData(fixture);
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  async getForecast(coordinates: Coordinates): Promise<WeatherData> {
+    return this.createForecast(coordinates);
+  }
+
+  async getForecasts(locations: Coordinates[]): Promise<BatchWeatherResult[]> {
+    return locations.map(coordinates => ({ coordinates, ok: true, data: this.createForecast(coordinates) }));
+  }
+
+  async searchPlaces(query: string, count: number): Promise<SearchResult[]> {
+    const hierarchy = await loadServerRegionHierarchy();
+    const features = [...hierarchy.cities, ...Object.values(hierarchy.districts).flat()];
+    const seen = new Set<number>();
+
+    return features
+      .filter(feature => {
+        const { adcode, name } = feature.properties;
+        if (seen.has(adcode) || !name.includes(query)) return false;
+        seen.add(adcode);
+        return true;
+      })
+      .slice(0, count)
+      .map(feature => {
+        const { lat, lng } = getRegionCenter(feature);
+        const layer = getRegionLayer(feature.properties.adcode);
+        const isShanghai = String(feature.properties.adcode).startsWith('31');
+        return {
+          name: feature.properties.name,
+          latitude: lat,
+          longitude: lng,
+          country: '中国',
+          countryCode: 'CN',
+          admin1: isShanghai ? '上海市' : '浙江省',
+          admin2: layer && layer.name !== feature.properties.name && !isShanghai ? layer.name : undefined
+        };
+      });
+  }
+
+  /**
+   * 生成指定位置的预报
+   */
+  private createForecast(coordinates: Coordinates): WeatherData {
+    const { base } = this;
+    const now = formatLocalTime(this.now());
+    const days = Math.round((Date.parse(`${now.slice(0, 10)}T00:00Z`) - Date.parse(`${base.daily.time[0]}T00:00Z`)) / DAY_MS);
+
+    // 纬度越高气温越低，沿海风大、湿度高，降水按坐标随机缩放
+    const noise = coordinateNoise(coordinates);
+    const temperatureOffset = (30 - coordinates.lat) * 1.2 + (noise - 0.5) * 2;
+    const humidityOffset = (coordinates.lng - 120.5) * 4;
+    const precipitationFactor = 0.4 + noise * 1.2;
+    const windFactor = coordinates.lng > 121.5 ? 1.4 : 1;
+
+    const round = (value: number) => Math.round(value * 10) / 10;
+    const temperature = (values: number[]) => values.map(value => round(value + temperatureOffset));
+    const humidity = (values: number[]) => values.map(value => Math.max(0, Math.min(100, Math.round(value + humidityOffset))));
+    const precipitation = (values: number[]) => values.map(value => round(value * precipitationFactor));
+    const wind = (values: number[]) => values.map(value => round(value * windFactor));
+
+    const hourly = {
+      ...base.hourly,
+      time: base.hourly.time.map(time => shiftTime(time, days)),
+      temperature: temperature(base.hourly.temperature),
+      apparentTemperature: temperature(base.hourly.apparentTemperature),
+      humidity: humidity(base.hourly.humidity),
+      precipitation: precipitation(base.hourly.precipitation),
+      windSpeed: wind(base.hourly.windSpeed),
+      windGusts: wind(base.hourly.windGusts)
+    };
+
+    // 当前天气取样例中当前小时的逐小时数据
+    const currentHour = `${now.slice(0, 13)}:00`;
+    const index = Math.max(0, hourly.time.indexOf(currentHour));
+
+    return {
+      ...base,
+      current: {
+        ...base.current,
+        time: currentHour,
+        temperature: hourly.temperature[index],
+        apparentTemperature: hourly.apparentTemperature[index],
+        humidity: hourly.humidity[index],
+        precipitation: hourly.precipitation[index],
+        weatherCode: hourly.weatherCode[index],
+        windSpeed: hourly.windSpeed[index],
+        windGusts: hourly.windGusts[index],
+        isDay: hourly.isDay[index]
+      },
+      hourly,
+      daily: {
+        ...base.daily,
+        time: base.daily.time.map(time => shiftTime(time, days)),
+        temperatureMax: temperature(base.daily.temperatureMax),
+        temperatureMin: temperature(base.daily.temperatureMin),
+        precipitationSum: precipitation(base.daily.precipitationSum)
+      }
+    };
+  }
+}
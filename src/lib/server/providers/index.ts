@@ -0,0 +1,39 @@
+import { getServerConfig } from '../config';
+import { FixtureProvider } from './fixture';
+import { OpenMeteoProvider } from './open-meteo';
+import { WeatherProvider, WeatherProviderId } from './types';
+
+export type { WeatherProvider, WeatherProviderId } from './types';
+export { WEATHER_PROVIDERS } from './types';
+export { OpenMeteoProvider } from './open-meteo';
+export { FixtureProvider } from './fixture';
+
+let provider: WeatherProvider | null = null;
+
+/**
+ * 按配置创建数据源
+ */
+export function createWeatherProvider(id: WeatherProviderId): WeatherProvider {
+  const config = getServerConfig();
+
+  switch (id) {
+    case 'fixture':
+      return new FixtureProvider();
+    case 'open-meteo':
+      return new OpenMeteoProvider({
+        forecastUrl: config.forecastUrl,
+        geocodingUrl: config.geocodingUrl,
+        timeout: config.upstreamTimeout
+      });
+  }
+}
+
+/**
+ * 当前配置的数据源（进程内单例）
+ */
+export function getWeatherProvider(): WeatherProvider {
+  if (!provider) {
+    provider = createWeatherProvider(getServerConfig().weatherProvider);
+  }
+  return provider;
+}
@@ -0,0 +1,158 @@
+import { BatchWeatherResult, Coordinates, SearchResult, WeatherData } from '@/types';
+import { FORECAST_VARIABLES, normalizeForecast, normalizeGeocodingResults } from '@/lib/api/normalize';
+import { UpstreamError, UpstreamRateLimitError } from '../errors';
+import { WeatherProvider } from './types';
+
+export interface OpenMeteoOptions {
+  /** 预报接口地址 */
+  forecastUrl: string;
+  /** 地理编码接口地址 */
+  geocodingUrl: string;
+  /** 请求超时（毫秒） */
+  timeout: number;
+}
+
+// 单次多位置请求包含的最大坐标数，避免URL过长
+const BATCH_CHUNK_SIZE = 50;
+
+// 未提供 Retry-After 时的默认冷却时间（秒）
+const DEFAULT_RETRY_AFTER = 60;
+
+/**
+ * 构造预报请求参数，多个坐标以逗号分隔
+ */
+function buildForecastParams(locations: Coordinates[]): URLSearchParams {
+  return new URLSearchParams({
+    latitude: locations.map(({ lat }) => lat.toString()).join(','),
+    longitude: locations.map(({ lng }) => lng.toString()).join(','),
+    current: FORECAST_VARIABLES.current.join(','),
+    hourly: FORECAST_VARIABLES.hourly.join(','),
+    daily: FORECAST_VARIABLES.daily.join(','),
+    // 数据按当地时区划分逐日预报；用户设置的时区只用于显示，不影响请求和缓存
+    timezone: 'Asia/Shanghai',
+    forecast_days: '7'
+  });
+}
+
+/**
+ * 将数组按固定大小分块
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+}
+
+/**
+ * Open-Meteo 数据源，也适用于自建实例或兼容的模拟服务
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly id = 'open-meteo';
+
+  // 被限流后在冷却结束前不再请求上游，直接返回限流错误
+  private rateLimitedUntil = 0;
+
+  constructor(private readonly options: OpenMeteoOptions) {}
+
+  async getForecast(coordinates: Coordinates): Promise<WeatherData> {
+    const response = await this.fetchUpstream(`${this.options.forecastUrl}?${buildForecastParams([coordinates])}`);
+    if (!response.ok) {
+      throw new UpstreamError(`Weather API error: ${response.status}`, response.status);
+    }
+    return normalizeForecast(await response.json());
+  }
+
+  /**
+   * 坐标按块合并为多位置请求，单个位置或单个分块失败不会影响其他位置
+   */
+  async getForecasts(locations: Coordinates[]): Promise<BatchWeatherResult[]> {
+    const groups = await Promise.all(
+      chunk(locations, BATCH_CHUNK_SIZE).map(group => this.fetchLocationGroup(group))
+    );
+    return groups.flat();
+  }
+
+  async searchPlaces(query: string, count: number): Promise<SearchResult[]> {
+    const params = new URLSearchParams({ name: query, count: String(count), language: 'zh', format: 'json' });
+    const response = await this.fetchUpstream(`${this.options.geocodingUrl}?${params}`);
+    if (!response.ok) {
+      throw new UpstreamError(`Geocoding API error: ${response.status}`, response.status);
+    }
+    return normalizeGeocodingResults(await response.json());
+  }
+
+  /**
+   * 请求上游接口，统一处理超时和限流
+   */
+  private async fetchUpstream(url: string): Promise<Response> {
+    const remaining = Math.ceil((this.rateLimitedUntil - Date.now()) / 1000);
+    if (remaining > 0) throw new UpstreamRateLimitError(remaining);
+
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(this.options.timeout),
+      cache: 'no-store'
+    });
+
+    if (response.status === 429) {
+      const header = Number(response.headers.get('Retry-After'));
+      const retryAfter = Number.isFinite(header) && header > 0 ? header : DEFAULT_RETRY_AFTER;
+      this.rateLimitedUntil = Date.now() + retryAfter * 1000;
+      throw new UpstreamRateLimitError(retryAfter);
+    }
+
+    return response;
+  }
+
+  /**
+   * 请求一组坐标的预报
+   *
+   * Open-Meteo 在任一坐标无效时会拒绝整个请求（400），
+   * 此时将分组二分后重试，以定位并隔离出错的坐标。
+   */
+  private async fetchLocationGroup(group: Coordinates[]): Promise<BatchWeatherResult[]> {
+    try {
+      const response = await this.fetchUpstream(`${this.options.forecastUrl}?${buildForecastParams(group)}`);
+
+      if (response.status === 400 && group.length > 1) {
+        const middle = Math.ceil(group.length / 2);
+        const [first, second] = await Promise.all([
+          this.fetchLocationGroup(group.slice(0, middle)),
+          this.fetchLocationGroup(group.slice(middle))
+        ]);
+        return [...first, ...second];
+      }
+
+      if (!response.ok) {
+        throw new UpstreamError(`Weather API error: ${response.status}`, response.status);
+      }
+
+      // 单个坐标时返回对象，多个坐标时返回与输入顺序一致的数组
+      const data = await response.json();
+      const items: unknown[] = Array.isArray(data) ? data : [data];
+
+      if (items.length !== group.length) {
+        throw new UpstreamError(`Weather API returned ${items.length} results for ${group.length} locations`, 502);
+      }
+
+      return group.map((coordinates, index): BatchWeatherResult => {
+        try {
+          return { coordinates, ok: true, data: normalizeForecast(items[index]) };
+        } catch (error) {
+          console.error('Invalid weather data in batch response:', error);
+          return { coordinates, ok: false, error: 'invalidResponse' };
+        }
+      });
+    } catch (error) {
+      if (error instanceof UpstreamRateLimitError) throw error;
+
+      console.error('Failed to fetch batch weather data:', error);
+      return group.map(coordinates => ({
+        coordinates,
+        ok: false as const,
+        error: 'unavailable'
+      }));
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { BatchWeatherResult, Coordinates, SearchResult, WeatherData } from '@/types';
+
+/**
+ * 可选的数据源，通过环境变量 WEATHER_PROVIDER 选择
+ */
+export const WEATHER_PROVIDERS = ['open-meteo', 'fixture'] as const;
+
+export type WeatherProviderId = (typeof WEATHER_PROVIDERS)[number];
+
+/**
+ * 天气数据源
+ *
+ * 各实现负责请求各自的上游并转换为领域模型，组件和接口层只依赖这里的类型；
+ * 缓存、结果筛选排序由 weather-service 统一处理。
+ */
+export interface WeatherProvider {
+  /** 数据源标识，用于缓存键和日志 */
+  readonly id: string;
+  /** 获取单个位置的预报，上游限流时抛出 UpstreamRateLimitError */
+  getForecast(coordinates: Coordinates): Promise<WeatherData>;
+  /** 批量获取预报，按输入顺序返回每个位置的结果；上游限流时整体抛出 UpstreamRateLimitError */
+  getForecasts(locations: Coordinates[]): Promise<BatchWeatherResult[]>;
+  /** 地名搜索，按相关度排序 */
+  searchPlaces(query: string, count: number): Promise<SearchResult[]>;
+}
@@ -0,0 +1,93 @@
+import { BatchWeatherResult, Coordinates, SearchResult, WeatherData } from '@/types';
+import { WeatherCache } from '@/lib/api/weather-cache';
+import { FORECAST_VARIABLES } from '@/lib/api/normalize';
+import { getWeatherProvider } from './providers';
+
+// 缓存键使用的变量集合
+const CACHE_VARIABLES = Object.entries(FORECAST_VARIABLES).flatMap(([block, variables]) =>
+  variables.map(variable => `${block}.${variable}`)
+);
+
+// 服务端进程内缓存，所有用户共享；键中包含数据源，切换数据源不会命中旧数据
+// 键由请求参数决定，限制条目数以免任意坐标或查询词占满内存
+const forecastCache = new WeatherCache<WeatherData>({ namespace: 'server-forecast', maxEntries: 2000 });
+
+// 地名对应的坐标基本不变，缓存一天
+const geocodingCache = new WeatherCache<SearchResult[]>({
+  namespace: 'server-geocode',
+  ttl: 24 * 60 * 60 * 1000,
+  alignToInterval: false,
+  maxEntries: 1000
+});
+
+// 向数据源请求的搜索结果数，筛选后再截取
+const SEARCH_FETCH_COUNT = 20;
+
+// 上海、浙江的结果优先显示
+const PREFERRED_ADMIN1 = ['上海', '浙江', 'Shanghai', 'Zhejiang'];
+
+function forecastKey(coordinates: Coordinates): string {
+  return `${getWeatherProvider().id}:${forecastCache.createKey(coordinates, CACHE_VARIABLES)}`;
+}
+
+/**
+ * 获取单个位置的预报（经服务端缓存）
+ */
+export function getForecast(coordinates: Coordinates): Promise<WeatherData> {
+  // 按缓存精度取整后再请求，缓存的数据与键对应的坐标一致
+  const rounded = forecastCache.roundCoordinates(coordinates);
+  return forecastCache.get(forecastKey(rounded), () => getWeatherProvider().getForecast(rounded));
+}
+
+/**
+ * 批量获取多个位置的预报
+ *
+ * 结果按输入顺序逐一返回成功或失败，已缓存的位置不会重复请求。
+ * 上游限流时整体抛出 UpstreamRateLimitError，由调用方返回 429。
+ */
+export async function getForecasts(locations: Coordinates[]): Promise<BatchWeatherResult[]> {
+  const keys = locations.map(forecastKey);
+  const rounded = locations.map(coordinates => forecastCache.roundCoordinates(coordinates));
+  const cached = await Promise.all(keys.map(key => forecastCache.peek(key)));
+
+  const results: (BatchWeatherResult | undefined)[] = cached.map((data, index) =>
+    data ? { coordinates: locations[index], ok: true, data } : undefined
+  );
+  const missing = locations
+    .map((coordinates, index) => ({ coordinates, index }))
+    .filter(({ index }) => !results[index]);
+
+  if (missing.length > 0) {
+    const fetched = await getWeatherProvider().getForecasts(missing.map(({ index }) => rounded[index]));
+    await Promise.all(
+      fetched.map((result, position) => {
+        const { coordinates, index } = missing[position];
+        // 结果中的坐标保持与请求一致
+        results[index] = { ...result, coordinates };
+        return result.ok ? forecastCache.set(keys[index], result.data) : undefined;
+      })
+    );
+  }
+
+  return results as BatchWeatherResult[];
+}
+
+/**
+ * 地名搜索，只保留中国境内的结果，上海和浙江优先
+ */
+export function searchPlaces(query: string, count: number = 8): Promise<SearchResult[]> {
+  const name = query.trim();
+  const provider = getWeatherProvider();
+  const key = `${provider.id}|${name.toLowerCase()}|${count}`;
+
+  return geocodingCache.get(key, async () => {
+    const isPreferred = (result: SearchResult) =>
+      PREFERRED_ADMIN1.some(prefix => result.admin1?.startsWith(prefix));
+
+    return (await provider.searchPlaces(name, SEARCH_FETCH_COUNT))
+      .filter(result => result.countryCode === 'CN')
+      // sort 是稳定排序，同优先级保持数据源的相关度顺序
+      .sort((a, b) => Number(isPreferred(b)) - Number(isPreferred(a)))
+      .slice(0, count);
+  });
+}
@@ -0,0 +1,128 @@
+import { LOCALES, Locale } from '@/lib/i18n';
+import { AlertThresholds, DEFAULT_ALERT_THRESHOLDS, parseAlertThresholds } from '@/lib/alerts';
+import {
+  PRECIPITATION_UNITS,
+  PrecipitationUnit,
+  TEMPERATURE_UNITS,
+  TemperatureUnit,
+  WIND_SPEED_UNITS,
+  WindSpeedUnit
+} from '@/lib/units';
+
+/**
+ * 用户设置：界面语言、显示单位、时区和预警阈值
+ */
+export interface Settings {
+  locale: Locale;
+  temperatureUnit: TemperatureUnit;
+  windSpeedUnit: WindSpeedUnit;
+  precipitationUnit: PrecipitationUnit;
+  /** 时间显示使用的 IANA 时区，local 表示浏览器所在时区；逐日预报仍按数据时区的日期划分 */
+  timeZone: string;
+  /** 预警规则的阈值，数值使用基准单位（mm、km/h、°C） */
+  alertThresholds: AlertThresholds;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  locale: 'zh-CN',
+  temperatureUnit: 'celsius',
+  windSpeedUnit: 'kmh',
+  precipitationUnit: 'mm',
+  timeZone: 'Asia/Shanghai',
+  alertThresholds: DEFAULT_ALERT_THRESHOLDS
+};
+
+/** 浏览器所在时区 */
+export const LOCAL_TIME_ZONE = 'local';
+
+/** 设置面板中可选的时区 */
+export const TIME_ZONES = [
+  'Asia/Shanghai',
+  LOCAL_TIME_ZONE,
+  'UTC',
+  'Asia/Tokyo',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Los_Angeles'
+];
+
+export const SETTINGS_STORAGE_KEY = 'weather-map-app:settings';
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function pick<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? value as T : fallback;
+}
+
+/**
+ * 是否为运行环境支持的 IANA 时区
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 将 local 解析为实际时区
+ */
+export function resolveTimeZone(timeZone: string): string {
+  return timeZone === LOCAL_TIME_ZONE ? Intl.DateTimeFormat().resolvedOptions().timeZone : timeZone;
+}
+
+/**
+ * 由浏览器的首选语言选择界面语言，非中文环境使用英文
+ */
+export function detectLocale(languages: readonly string[]): Locale {
+  const [preferred] = languages;
+  if (!preferred) return DEFAULT_SETTINGS.locale;
+  return preferred.toLowerCase().startsWith('zh') ? 'zh-CN' : 'en';
+}
+
+/**
+ * 解析设置，无效或缺失的字段使用 defaults 中的值
+ */
+export function parseSettings(raw: unknown, defaults: Settings = DEFAULT_SETTINGS): Settings {
+  if (!isObject(raw)) return defaults;
+
+  const { locale, temperatureUnit, windSpeedUnit, precipitationUnit, timeZone, alertThresholds } = raw;
+  return {
+    locale: pick(locale, LOCALES, defaults.locale),
+    temperatureUnit: pick(temperatureUnit, TEMPERATURE_UNITS, defaults.temperatureUnit),
+    windSpeedUnit: pick(windSpeedUnit, WIND_SPEED_UNITS, defaults.windSpeedUnit),
+    precipitationUnit: pick(precipitationUnit, PRECIPITATION_UNITS, defaults.precipitationUnit),
+    timeZone: typeof timeZone === 'string' && (timeZone === LOCAL_TIME_ZONE || isValidTimeZone(timeZone))
+      ? timeZone
+      : defaults.timeZone,
+    alertThresholds: parseAlertThresholds(alertThresholds, defaults.alertThresholds)
+  };
+}
+
+/**
+ * 从本地存储读取设置，尚未保存过时按浏览器语言选择界面语言
+ */
+export function loadSettings(storage: Storage = window.localStorage): Settings {
+  const defaults = { ...DEFAULT_SETTINGS, locale: detectLocale(navigator.languages ?? [navigator.language]) };
+  const raw = storage.getItem(SETTINGS_STORAGE_KEY);
+  if (!raw) return defaults;
+
+  try {
+    return parseSettings(JSON.parse(raw), defaults);
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+    return defaults;
+  }
+}
+
+/**
+ * 写入本地存储
+ */
+export function saveSettings(settings: Settings, storage: Storage = window.localStorage): void {
+  storage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
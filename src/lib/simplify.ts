@@ -0,0 +1,77 @@
+/**
+ * 平面点
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * 点到线段的距离平方
+ */
+function segmentDistanceSquared(point: Point, start: Point, end: Point): number {
+  let { x, y } = start;
+  let dx = end.x - x;
+  let dy = end.y - y;
+
+  if (dx !== 0 || dy !== 0) {
+    const t = ((point.x - x) * dx + (point.y - y) * dy) / (dx * dx + dy * dy);
+
+    if (t > 1) {
+      x = end.x;
+      y = end.y;
+    } else if (t > 0) {
+      x += dx * t;
+      y += dy * t;
+    }
+  }
+
+  dx = point.x - x;
+  dy = point.y - y;
+  return dx * dx + dy * dy;
+}
+
+/**
+ * Douglas–Peucker 折线简化
+ *
+ * tolerance 与点坐标同单位，保留首尾两点；使用显式栈避免长边界递归过深。
+ */
+export function simplifyPolyline(points: Point[], tolerance: number): Point[] {
+  if (points.length <= 2 || tolerance <= 0) return points;
+
+  const sqTolerance = tolerance * tolerance;
+  const keep = new Uint8Array(points.length);
+  keep[0] = 1;
+  keep[points.length - 1] = 1;
+
+  const stack: [number, number][] = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let maxDistance = 0;
+    let index = -1;
+
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistanceSquared(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        index = i;
+      }
+    }
+
+    if (index !== -1 && maxDistance > sqTolerance) {
+      keep[index] = 1;
+      stack.push([first, index], [index, last]);
+    }
+  }
+
+  return points.filter((_, i) => keep[i] === 1);
+}
+
+/**
+ * 简化闭合环，简化后点数过少（退化为线）时保留原环
+ */
+export function simplifyRing(ring: Point[], tolerance: number): Point[] {
+  const simplified = simplifyPolyline(ring, tolerance);
+  return simplified.length >= 4 ? simplified : ring;
+}
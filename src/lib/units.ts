@@ -0,0 +1,70 @@
+/**
+ * 温度单位
+ */
+export type TemperatureUnit = 'celsius' | 'fahrenheit';
+
+/**
+ * 风速单位，beaufort 为蒲福风级
+ */
+export type WindSpeedUnit = 'kmh' | 'ms' | 'beaufort' | 'knots';
+
+/**
+ * 降水量单位
+ */
+export type PrecipitationUnit = 'mm' | 'inch';
+
+export const TEMPERATURE_UNITS: TemperatureUnit[] = ['celsius', 'fahrenheit'];
+export const WIND_SPEED_UNITS: WindSpeedUnit[] = ['kmh', 'ms', 'beaufort', 'knots'];
+export const PRECIPITATION_UNITS: PrecipitationUnit[] = ['mm', 'inch'];
+
+/** 单位符号，蒲福风级的符号随语言变化，不在此列出 */
+export const UNIT_SYMBOLS: Record<Exclude<TemperatureUnit | WindSpeedUnit | PrecipitationUnit, 'beaufort'>, string> = {
+  celsius: '°C',
+  fahrenheit: '°F',
+  kmh: 'km/h',
+  ms: 'm/s',
+  knots: 'kn',
+  mm: 'mm',
+  inch: 'in'
+};
+
+// 蒲福风级 1～12 级的下限（km/h）
+const BEAUFORT_LIMITS = [1, 6, 12, 20, 29, 39, 50, 62, 75, 89, 103, 118];
+
+/**
+ * 由风速（km/h）得到蒲福风级（0～12）
+ */
+export function toBeaufort(kmh: number): number {
+  const level = BEAUFORT_LIMITS.findIndex(limit => kmh < limit);
+  return level === -1 ? BEAUFORT_LIMITS.length : level;
+}
+
+/**
+ * 将摄氏温度换算为指定单位
+ */
+export function convertTemperature(celsius: number, unit: TemperatureUnit): number {
+  return unit === 'fahrenheit' ? celsius * 9 / 5 + 32 : celsius;
+}
+
+/**
+ * 将风速（km/h）换算为指定单位
+ */
+export function convertWindSpeed(kmh: number, unit: WindSpeedUnit): number {
+  switch (unit) {
+    case 'kmh':
+      return kmh;
+    case 'ms':
+      return kmh / 3.6;
+    case 'knots':
+      return kmh / 1.852;
+    case 'beaufort':
+      return Number.isFinite(kmh) ? toBeaufort(kmh) : NaN;
+  }
+}
+
+/**
+ * 将降水量（mm）换算为指定单位
+ */
+export function convertPrecipitation(mm: number, unit: PrecipitationUnit): number {
+  return unit === 'inch' ? mm / 25.4 : mm;
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MAP_VIEW, MapUrlState, parseMapUrlState, serializeMapUrlState } from './url-state';
+
+const parse = (query: string) => parseMapUrlState(new URLSearchParams(query));
+
+describe('map URL state', () => {
+  it('omits default values', () => {
+    expect(serializeMapUrlState({ region: null, point: null, location: null, view: DEFAULT_MAP_VIEW })).toBe('');
+    expect(parse('').view).toEqual(DEFAULT_MAP_VIEW);
+  });
+
+  it('round-trips the selection and view', () => {
+    const state: MapUrlState = {
+      region: 330106,
+      point: { lat: 30.2741, lng: 120.1551 },
+      location: null,
+      view: {
+        city: 330100,
+        zoom: 2.5,
+        center: { lat: 30.25, lng: 120.15 },
+        mode: 'weather',
+        metric: 'precipitation',
+        alerts: true
+      }
+    };
+
+    expect(parse(serializeMapUrlState(state))).toEqual(state);
+  });
+
+  it('keeps the alerts overlay in the query', () => {
+    const query = serializeMapUrlState({
+      region: null,
+      point: null,
+      location: null,
+      view: { ...DEFAULT_MAP_VIEW, alerts: true }
+    });
+
+    expect(query).toBe('alerts=1');
+    expect(parse(query).view.alerts).toBe(true);
+  });
+
+  it('falls back to defaults for invalid parameters', () => {
+    const { region, view } = parse('region=abc&zoom=-1&mode=other&metric=unknown&center=100,0');
+    expect(region).toBeNull();
+    expect(view).toEqual(DEFAULT_MAP_VIEW);
+  });
+});
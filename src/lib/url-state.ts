@@ -0,0 +1,113 @@
+import { Coordinates, MapView, WeatherMetric } from '@/types';
+import { METRIC_SCALES } from './color-scale';
+
+/**
+ * 首页可分享的状态：选中区域或搜索地点，以及地图视图
+ */
+export interface MapUrlState {
+  /** 选中区县的 adcode */
+  region: number | null;
+  /** 选中区县时点击的位置，缺省取区县中心 */
+  point: Coordinates | null;
+  /** 搜索选中的地点 */
+  location: { name: string; latitude: number; longitude: number } | null;
+  view: MapView;
+}
+
+export const DEFAULT_MAP_VIEW: MapView = {
+  city: null,
+  zoom: 1,
+  center: null,
+  mode: 'region',
+  metric: 'temperature',
+  alerts: false
+};
+
+// 坐标保留 4 位小数（约 10 米），缩放保留 2 位
+const COORDINATE_PRECISION = 4;
+const ZOOM_PRECISION = 2;
+
+function parseInteger(value: string | null): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  return Number(value);
+}
+
+/**
+ * 解析 "lat,lng" 格式的坐标
+ */
+function parseCoordinates(value: string | null): Coordinates | null {
+  if (!value) return null;
+  const [lat, lng] = value.split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng)) return null;
+  if (Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+function formatCoordinates({ lat, lng }: Coordinates): string {
+  return `${lat.toFixed(COORDINATE_PRECISION)},${lng.toFixed(COORDINATE_PRECISION)}`;
+}
+
+function isWeatherMetric(value: string | null): value is WeatherMetric {
+  return value !== null && Object.prototype.hasOwnProperty.call(METRIC_SCALES, value);
+}
+
+/**
+ * 从查询参数解析首页状态，无效参数按缺省处理
+ */
+export function parseMapUrlState(params: URLSearchParams): MapUrlState {
+  const zoom = Number(params.get('zoom'));
+  const placeName = params.get('place');
+  const placeCoordinates = parseCoordinates(params.get('ll'));
+  const metric = params.get('metric');
+
+  return {
+    region: parseInteger(params.get('region')),
+    point: parseCoordinates(params.get('at')),
+    location: placeName && placeCoordinates
+      ? { name: placeName, latitude: placeCoordinates.lat, longitude: placeCoordinates.lng }
+      : null,
+    view: {
+      city: parseInteger(params.get('city')),
+      zoom: Number.isFinite(zoom) && zoom > 0 ? zoom : DEFAULT_MAP_VIEW.zoom,
+      center: parseCoordinates(params.get('center')),
+      mode: params.get('mode') === 'weather' ? 'weather' : DEFAULT_MAP_VIEW.mode,
+      metric: isWeatherMetric(metric) ? metric : DEFAULT_MAP_VIEW.metric,
+      alerts: params.has('alerts') ? params.get('alerts') === '1' : DEFAULT_MAP_VIEW.alerts
+    }
+  };
+}
+
+/**
+ * 将首页状态编码为查询字符串，缺省值不写入
+ */
+export function serializeMapUrlState(state: MapUrlState): string {
+  const params = new URLSearchParams();
+  const { view } = state;
+
+  if (state.region !== null) {
+    params.set('region', String(state.region));
+    if (state.point) params.set('at', formatCoordinates(state.point));
+  } else if (state.location) {
+    params.set('place', state.location.name);
+    params.set('ll', formatCoordinates({ lat: state.location.latitude, lng: state.location.longitude }));
+  }
+
+  if (view.city !== null) params.set('city', String(view.city));
+  if (view.center) {
+    params.set('zoom', view.zoom.toFixed(ZOOM_PRECISION).replace(/\.?0+$/, ''));
+    params.set('center', formatCoordinates(view.center));
+  }
+  if (view.mode !== DEFAULT_MAP_VIEW.mode) params.set('mode', view.mode);
+  if (view.mode === 'weather' && view.metric !== DEFAULT_MAP_VIEW.metric) params.set('metric', view.metric);
+  if (view.alerts !== DEFAULT_MAP_VIEW.alerts) params.set('alerts', view.alerts ? '1' : '0');
+
+  return params.toString();
+}
+
+/**
+ * 比较两个视图编码后是否相同（忽略精度以下的差异）
+ */
+export function isSameMapView(a: MapView, b: MapView): boolean {
+  const encode = (view: MapView) => serializeMapUrlState({ region: null, point: null, location: null, view });
+  return encode(a) === encode(b);
+}
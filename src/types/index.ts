@@ -29,47 +29,139 @@ export interface GeoData {
 }
 
 // 天气数据相关类型
+export interface WeatherUnits {
+  temperature: string;
+  humidity: string;
+  precipitation: string;
+  windSpeed: string;
+  windDirection: string;
+  pressure: string;
+  cloudCover: string;
+}
+
+export interface CurrentWeather {
+  time: string;
+  temperature: number;
+  apparentTemperature: number;
+  humidity: number;
+  precipitation: number;
+  weatherCode: number;
+  cloudCover: number;
+  pressure: number;
+  windSpeed: number;
+  windDirection: number;
+  windGusts: number;
+  isDay: boolean;
+}
+
+// 逐小时预报，各数组与 time 一一对应，缺测值为 NaN
+export interface HourlyForecast {
+  time: string[];
+  temperature: number[];
+  apparentTemperature: number[];
+  humidity: number[];
+  precipitation: number[];
+  precipitationProbability: number[];
+  weatherCode: number[];
+  windSpeed: number[];
+  windGusts: number[];
+  isDay: boolean[];
+}
+
+// 逐日预报，各数组与 time 一一对应，缺测值为 NaN
+export interface DailyForecast {
+  time: string[];
+  temperatureMax: number[];
+  temperatureMin: number[];
+  weatherCode: number[];
+  precipitationSum: number[];
+}
+
 export interface WeatherData {
   location?: {
     name: string;
-    lat: number;
-    lng: number;
     latitude: number;
     longitude: number;
   };
-  temperature?: number;
-  humidity?: number;
-  windSpeed?: number;
-  weatherCode?: number;
-  pressure?: number;
-  cloudCover?: number;
-  precipitation?: number;
-  windDirection?: number;
-  apparentTemperature?: number;
-  isDay?: boolean;
-  current: {
-    time: string;
-    temperature_2m: number;
-    relative_humidity_2m: number;
-    wind_speed_10m: number;
-    wind_direction_10m: number;
-    weather_code: number;
-  };
-  daily: {
-    time: string[];
-    temperature_2m_max: number[];
-    temperature_2m_min: number[];
-    weather_code: number[];
-    precipitation_sum: number[];
-  };
+  timezone: string;
+  units: WeatherUnits;
+  current: CurrentWeather;
+  hourly: HourlyForecast;
+  daily: DailyForecast;
+  /** 无法获取最新数据时返回的最近数据，值为其获取时间（毫秒时间戳） */
+  staleSince?: number;
+}
+
+// 地理编码搜索结果
+export interface SearchResult {
+  name: string;
+  latitude: number;
+  longitude: number;
+  country: string;
+  /** ISO 3166-1 国家代码，如 CN */
+  countryCode?: string;
+  admin1?: string;
+  admin2?: string;
 }
 
+/**
+ * 天气接口的错误类别，接口响应和批量结果中返回，界面按类别显示对应语言的提示
+ */
+export type WeatherErrorCode =
+  | 'network'
+  | 'unavailable'
+  | 'badRequest'
+  | 'rateLimited'
+  | 'invalidResponse'
+  | 'unknownLocation';
+
+// 批量请求中单个位置的结果
+export type BatchWeatherResult =
+  | { coordinates: Coordinates; ok: true; data: WeatherData }
+  | { coordinates: Coordinates; ok: false; error: WeatherErrorCode };
+
 export interface WeatherLocation {
   name: string;
   coordinates: Coordinates;
   weather?: WeatherData;
 }
 
+// 地图显示模式
+export type MapMode = 'region' | 'weather';
+
+// 专题地图可选的天气指标
+export type WeatherMetric = 'temperature' | 'precipitation' | 'windSpeed' | 'humidity';
+
+// 地图视图状态（层级、缩放、中心点、显示模式），可编码到 URL 中分享
+export interface MapView {
+  /** 下钻到的城市 adcode，为空表示市级总览 */
+  city: number | null;
+  zoom: number;
+  /** 画布中心对应的地理坐标，为空表示未平移缩放 */
+  center: Coordinates | null;
+  mode: MapMode;
+  metric: WeatherMetric;
+  /** 是否显示预警轮廓 */
+  alerts: boolean;
+}
+
+// 对比中的地点，区县或搜索结果
+export interface CompareLocation {
+  /** 唯一标识：区县为 adcode，搜索地点为坐标 */
+  id: string;
+  name: string;
+  coordinates: Coordinates;
+  adcode?: number;
+}
+
+// 收藏的地点，标识规则与对比地点一致
+export interface FavoriteLocation extends CompareLocation {
+  /** 用户自定义名称，为空时显示原名 */
+  label?: string;
+  /** 收藏时间（毫秒时间戳） */
+  addedAt: number;
+}
+
 // 天气代码映射
 export interface WeatherCodeInfo {
   description: string;